@@ -3,9 +3,118 @@
 interface GenerateOptions {
   includeVariants: boolean;
   includeBooleans: boolean;
-  naming: 'simple' | 'complex';
+  naming: 'simple' | 'complex' | 'template';
+  namingTemplate?: NamingTemplate; // Used when naming is 'template'
+  strategy?: 'full' | 'one-at-a-time' | 'pairwise';
+  layout?: 'wrap' | 'grid';
+  rowProperties?: string[]; // Property names laid out on grid rows
+  columnProperties?: string[]; // Property names laid out on grid columns
   selectedVariants?: Record<string, string[]>; // Property name -> array of selected values
   selectedBooleans?: string[]; // Array of selected boolean property names
+  includeInstanceSwaps?: boolean;
+  selectedInstanceSwaps?: Record<string, string[]>; // Property name -> array of selected component IDs
+  includeTexts?: boolean;
+  textSamples?: Record<string, string[]>; // Property name -> array of sample strings
+  includeBrands?: boolean;
+  selectedModes?: ModeSelection[]; // Variable modes to generate a group for
+  labels?: LabelOptions;
+  geometry?: TableGeometry;
+  highlightDefault?: boolean; // Outline the default combination's cell and label it "Default" (default)
+  defaultFirst?: boolean; // Place the default combination first
+  confirmThreshold?: number; // Ask before creating more instances than this, 0 never asks (default 500)
+  markFailures?: boolean; // Keep the instances of failed combinations in the table, marked as failed
+  accessibility?: AccessibilityOptions;
+  includeInteractions?: boolean; // Vary the hover and press states of interactive components as an "Interaction State" property
+}
+
+// Sizes, spacing and placement of generated tables; unset values use DEFAULT_GEOMETRY
+interface TableGeometry {
+  maxWidth?: number; // Width at which wrapping tables wrap
+  cellPadding?: number;
+  gap?: number; // Space between the cells of wrapping tables
+  wrap?: boolean; // Wrap cells onto new lines, or keep them on one line
+  equalCellSize?: boolean; // Size every cell like the largest one
+  background?: string; // Hex fill of the table, transparent when not set
+  placement?: 'beside' | 'new-page' | 'viewport'; // Where a new table is placed
+}
+
+// How the property labels of a table look and what they show
+interface LabelOptions {
+  visibility?: 'all' | 'non-default' | 'none'; // Which property labels cells show
+  cleanNames?: boolean; // Strip the ID suffix, like #23:5, from property names (default)
+  fontFamily?: string;
+  fontStyle?: string;
+  fontSize?: number;
+  color?: string; // Hex color, like #9747FF
+  textStyleId?: string; // Local text style used instead of the font settings
+  colorVariableId?: string; // Local color variable bound instead of the color
+  markChanges?: boolean; // Mark values that differ from the default with an asterisk
+}
+
+// Which accessibility checks annotate the cells of a table
+interface AccessibilityOptions {
+  contrast?: boolean; // Check the contrast of visible text layers against WCAG AA and AAA
+  touchTarget?: boolean; // Flag instances smaller than the minimum touch target
+  minTouchTarget?: number; // Minimum width and height of a touch target (default 44)
+}
+
+// A user-defined pattern for instance names, e.g. "{component}/{Size}/{Type}{?Icon: icon}"
+// {component}: the component name
+// {Property}: the value of a property, by name or alias
+// {?Property:text} / {!Property:text}: the text when a boolean is true / false,
+//   or when any other property has a value / has none
+// {properties}: every property of the combination, joined by the separator
+interface NamingTemplate {
+  template: string;
+  casing?: 'as-is' | 'title' | 'lower' | 'upper'; // Applied to property values
+  separator?: string; // Defaults to ' - '
+  aliases?: Record<string, string>; // Property name -> name used in the template and in {properties}
+  booleanLabels?: Record<string, BooleanLabels>; // Property name -> wording of its values
+}
+
+interface BooleanLabels {
+  whenTrue: string;
+  whenFalse: string;
+}
+
+// The options that decide how instances are named
+type NamingOptions = Pick<GenerateOptions, 'naming' | 'namingTemplate'>;
+
+// A component an instance swap property can be swapped to
+interface SwapValue {
+  id: string; // Component node ID, as used by setProperties, or the key of a library component not imported yet
+  name: string;
+  key?: string; // Key of a preferred value, which stays the same once the component is imported
+}
+
+// A declarative rule that excludes combinations before any nodes are created
+// 'exclude': combinations matching both conditions are dropped
+// 'only': when the first condition matches, the target property must have the target value
+interface CombinationRule {
+  when: RuleCondition;
+  effect: 'exclude' | 'only';
+  target: RuleCondition;
+}
+
+interface RuleCondition {
+  property: string;
+  value: string; // Booleans as 'true'/'false', instance swaps as the component name
+}
+
+// A named set of options saved on a component
+interface Preset {
+  name: string;
+  options: GenerateOptions;
+}
+
+interface ComponentPresets {
+  presets: Preset[];
+  activePreset: string | null; // Loaded automatically when the component is selected
+}
+
+interface ModeSelection {
+  collectionId: string;
+  modeId: string;
 }
 
 interface VariableCollectionInfo {
@@ -14,6 +123,91 @@ interface VariableCollectionInfo {
   modes: Array<{ modeId: string; name: string }>;
 }
 
+// An exposed nested instance and the properties it offers as combination axes
+// Property names are prefixed with the layer name, like "Button › Size", so they
+// can't clash with the component's own properties
+interface NestedInstanceInfo {
+  name: string; // Layer name, used to find the nested instance on each created instance
+  variantProperties: Record<string, string[]>;
+  booleanProperties: string[];
+}
+
+// What the UI is told about the selected component
+interface SelectedComponentInfo {
+  name: string;
+  id: string; // The component set for variants, otherwise the component
+  key: string;
+  type: 'COMPONENT' | 'COMPONENT_SET' | 'INSTANCE'; // Type of the selected node
+  remote: boolean; // From a library rather than this file
+  presets: ComponentPresets;
+  variantProperties: Record<string, string[]>;
+  booleanProperties: string[];
+  instanceSwapProperties: Record<string, SwapValue[]>;
+  textProperties: Record<string, string>;
+  nestedInstances: NestedInstanceInfo[];
+  interactionTriggers: Array<InteractionState['trigger']>; // Interaction states the variants change to
+  variantCount: number; // Number of variants, 1 for a plain component
+  thumbnail: string | null; // Base64 PNG of the default variant
+  predictedCount: number | null; // Instances a run with the saved settings and active preset would create
+}
+
+interface BatchFailure {
+  name: string;
+  reason: string;
+}
+
+// Messages the UI sends to the plugin
+type UIMessage =
+  | { type: 'generate-instances'; options: GenerateOptions; imageExport?: ImageExportSettings; confirmed?: boolean }
+  | { type: 'cancel-generation' }
+  | { type: 'regenerate-table'; confirmed?: boolean }
+  | { type: 'export-images'; imageExport: ImageExportSettings }
+  | { type: 'generate-batch'; options: GenerateOptions; scope: string; confirmed?: boolean } // 'selection' or a page ID
+  | { type: 'predict-count'; options: GenerateOptions }
+  | { type: 'preview-names'; options: GenerateOptions }
+  | { type: 'load-rules'; componentKey: string }
+  | { type: 'save-rules'; componentKey: string; rules: CombinationRule[] }
+  | { type: 'save-preset'; componentId: string; preset: Preset }
+  | { type: 'delete-preset'; componentId: string; name: string }
+  | { type: 'set-active-preset'; componentId: string; name: string | null }
+  | { type: 'audit-components'; scope: string } // 'selection' or a page ID
+  | { type: 'compare-variants'; left: Record<string, string>; right: Record<string, string>; labels?: LabelOptions }
+  | { type: 'get-pages' }
+  | { type: 'load-settings' }
+  | { type: 'save-settings'; settings: GenerateOptions }
+  | { type: 'get-variable-collections' }
+  | { type: 'get-label-styles' }
+  | { type: 'get-selected-component' };
+
+// Messages the plugin sends to the UI
+type PluginMessage =
+  | { type: 'selected-component'; component: SelectedComponentInfo | null }
+  | { type: 'selected-table'; table: { name: string } | null }
+  | { type: 'generation-progress'; current: number; total: number }
+  | { type: 'generation-finished' }
+  | { type: 'confirm-generation'; count: number }
+  | { type: 'generation-report'; generated: number; failures: CombinationFailure[]; excluded: number; accessibility: AccessibilitySummary | null }
+  | { type: 'combination-export'; fileName: string; json: string; csv: string; markdown: string }
+  | { type: 'image-export-progress'; current: number; total: number }
+  | { type: 'image-export'; fileName: string; files: Array<{ path: string; bytes: Uint8Array }> }
+  | { type: 'batch-progress'; current: number; total: number; name: string }
+  | { type: 'batch-report'; generated: number; instances: number; failures: BatchFailure[] }
+  | { type: 'variant-comparison'; comparison: VariantComparison }
+  | { type: 'audit-report'; audits: ComponentAudit[]; fileName: string; json: string; csv: string; markdown: string }
+  | { type: 'predicted-count'; count: number | null }
+  | { type: 'name-preview'; names: string[] }
+  | { type: 'rules-loaded'; componentKey: string; rules: CombinationRule[] }
+  | { type: 'presets-loaded'; componentId: string; presets: ComponentPresets }
+  | { type: 'pages'; pages: Array<{ id: string; name: string }>; currentPageId: string }
+  | { type: 'settings-loaded'; settings: GenerateOptions | null }
+  | { type: 'variable-collections'; collections: VariableCollectionInfo[] }
+  | { type: 'label-styles'; textStyles: Array<{ id: string; name: string }>; colorVariables: Array<{ id: string; name: string }> };
+
+// Helper function to send a message to the UI
+function postToUI(message: PluginMessage) {
+  figma.ui.postMessage(message);
+}
+
 // Helper function to get all variant combinations
 // Works with both ComponentNode and ComponentSetNode
 function getAllVariantCombinations(component: ComponentNode | ComponentSetNode): Array<Record<string, string>> {
@@ -100,6 +294,50 @@ function getAllVariantCombinations(component: ComponentNode | ComponentSetNode):
   return combinations;
 }
 
+// Helper function to split variant combinations into those that exist as a
+// variant in the component set and those that don't
+// Sparse component sets don't contain every combination of their property values
+function splitExistingVariantCombinations(
+  component: ComponentNode | ComponentSetNode,
+  combinations: Array<Record<string, string>>
+): { existing: Array<Record<string, string>>; missing: Array<Record<string, string>> } {
+  if (component.type !== 'COMPONENT_SET') {
+    return { existing: combinations, missing: [] };
+  }
+
+  const variants: Array<{ [property: string]: string }> = [];
+  for (const child of (component as ComponentSetNode).children) {
+    if (child.type === 'COMPONENT' && child.variantProperties) {
+      variants.push(child.variantProperties);
+    }
+  }
+
+  const existing: Array<Record<string, string>> = [];
+  const missing: Array<Record<string, string>> = [];
+  for (const combo of combinations) {
+    const exists = variants.some(variantProps => {
+      for (const key in combo) {
+        if (combo.hasOwnProperty(key) && variantProps[key] !== combo[key]) {
+          return false;
+        }
+      }
+      return true;
+    });
+    if (exists) {
+      existing.push(combo);
+    } else {
+      missing.push(combo);
+    }
+  }
+
+  return { existing, missing };
+}
+
+// Helper function to format a combination for reports, e.g. "Size=Small, Type=Primary"
+function formatCombination(props: Record<string, string | boolean>): string {
+  return Object.keys(props).map(k => `${k}=${props[k]}`).join(', ') || 'default';
+}
+
 // Helper function to get all boolean combinations
 // Works with both ComponentNode and ComponentSetNode
 function getAllBooleanCombinations(component: ComponentNode | ComponentSetNode): Array<Record<string, boolean>> {
@@ -175,14 +413,23 @@ function toTitleCase(str: string): string {
   });
 }
 
-// Helper function to format boolean property name naturally
-function formatBooleanName(key: string, value: boolean): string {
-  // Strip special characters like #23:5, #23:7, etc.
-  let cleanedKey = key.replace(/#\d+:\d+/g, '').trim();
+// Helper function to strip the ID suffix of a component property name, like #23:5
+function stripPropertyId(key: string): string {
+  return key.replace(/#\d+:\d+/g, '').trim();
+}
+
+// Helper function to format a component property name as title case words
+function formatPropertyName(key: string): string {
+  let cleanedKey = stripPropertyId(key);
   
   // Convert camelCase/PascalCase to words
   const words = cleanedKey.replace(/([A-Z])/g, ' $1').trim().split(' ');
-  const propertyName = words.map(w => toTitleCase(w)).join(' ');
+  return words.map(w => toTitleCase(w)).join(' ');
+}
+
+// Helper function to format boolean property name naturally
+function formatBooleanName(key: string, value: boolean): string {
+  const propertyName = formatPropertyName(key);
   
   // Format as "With [Property]" or "Without [Property]" for better readability
   if (value) {
@@ -192,13 +439,129 @@ function formatBooleanName(key: string, value: boolean): string {
   }
 }
 
+// Helper function to apply the casing of a naming template
+function applyCasing(text: string, casing: NamingTemplate['casing']): string {
+  switch (casing) {
+    case 'title':
+      return toTitleCase(text);
+    case 'lower':
+      return text.toLowerCase();
+    case 'upper':
+      return text.toUpperCase();
+    default:
+      return text;
+  }
+}
+
+// A property of a combination as it appears in a templated name
+interface NamedValue {
+  name: string; // Property name without its ID suffix
+  alias: string | null;
+  value: string; // Worded and cased
+  isBoolean: boolean;
+  isSet: boolean; // Booleans: whether true; other properties: whether they have a value
+}
+
+// Helper function to word every property of a combination for a naming template
+function getNamedValues(combination: CombinationProps, template: NamingTemplate): NamedValue[] {
+  const { variantProps, booleanProps, instanceSwapProps, textProps, interactionProps } = combination;
+  const aliases = template.aliases || {};
+  const booleanLabels = template.booleanLabels || {};
+  const values: NamedValue[] = [];
+
+  const addValue = (key: string, value: string, isBoolean: boolean, isSet: boolean) => {
+    const name = stripPropertyId(key);
+    values.push({
+      name,
+      alias: aliases[name] || null,
+      value: applyCasing(value, template.casing),
+      isBoolean,
+      isSet
+    });
+  };
+
+  for (const key in variantProps) {
+    if (variantProps.hasOwnProperty(key)) {
+      addValue(key, variantProps[key], false, !!variantProps[key]);
+    }
+  }
+  for (const key in booleanProps) {
+    if (booleanProps.hasOwnProperty(key)) {
+      const value = booleanProps[key];
+      const labels = booleanLabels[stripPropertyId(key)];
+      const wording = labels ? (value ? labels.whenTrue : labels.whenFalse) : formatBooleanName(key, value);
+      addValue(key, wording, true, value);
+    }
+  }
+  for (const key in instanceSwapProps) {
+    if (instanceSwapProps.hasOwnProperty(key)) {
+      addValue(key, instanceSwapProps[key].name, false, true);
+    }
+  }
+  for (const key in textProps) {
+    if (textProps.hasOwnProperty(key)) {
+      addValue(key, textProps[key], false, textProps[key] !== '');
+    }
+  }
+  for (const key in interactionProps) {
+    if (interactionProps.hasOwnProperty(key)) {
+      addValue(key, interactionProps[key], false, interactionProps[key] !== INTERACTION_DEFAULT);
+    }
+  }
+
+  return values;
+}
+
+// Helper function to fill in a naming template for a combination
+// Properties are matched by name or alias, ignoring case; unknown properties are left empty
+function renderNamingTemplate(componentName: string, combination: CombinationProps, template: NamingTemplate): string {
+  const values = getNamedValues(combination, template);
+  const separator = template.separator !== undefined ? template.separator : ' - ';
+
+  const findValue = (name: string): NamedValue | null => {
+    const lowerName = name.toLowerCase();
+    for (const value of values) {
+      if (value.name.toLowerCase() === lowerName || (value.alias && value.alias.toLowerCase() === lowerName)) {
+        return value;
+      }
+    }
+    return null;
+  };
+
+  return template.template.replace(/\{([?!]?)([^{}:]+)(?::([^{}]*))?\}/g, (match, condition: string, rawName: string, text?: string) => {
+    const name = rawName.trim();
+
+    if (condition) {
+      const value = findValue(name);
+      const matches = condition === '?' ? !!value && value.isSet : !value || !value.isSet;
+      if (!matches) {
+        return '';
+      }
+      return text !== undefined ? text : (value ? value.value : '');
+    }
+
+    if (name.toLowerCase() === 'component') {
+      return componentName;
+    }
+    if (name.toLowerCase() === 'properties') {
+      return values
+        .map(value => value.isBoolean ? value.value : `${value.alias || value.name}: ${value.value}`)
+        .join(separator);
+    }
+
+    const value = findValue(name);
+    return value ? value.value : '';
+  });
+}
+
 // Helper function to generate instance name
 function generateInstanceName(
   component: ComponentNode | ComponentSetNode,
-  variantProps: Record<string, string>,
-  booleanProps: Record<string, boolean>,
-  naming: 'simple' | 'complex'
+  combination: CombinationProps,
+  naming: NamingOptions
 ): string {
+  const { variantProps, booleanProps, instanceSwapProps, textProps, interactionProps } = combination;
+
   // Use component set name if available, otherwise use component name
   let componentName: string;
   if (component.type === 'COMPONENT_SET') {
@@ -209,7 +572,11 @@ function generateInstanceName(
     componentName = component.name;
   }
 
-  if (naming === 'simple') {
+  if (naming.naming === 'template' && naming.namingTemplate && naming.namingTemplate.template.trim() !== '') {
+    return renderNamingTemplate(componentName, combination, naming.namingTemplate);
+  }
+
+  if (naming.naming !== 'complex') {
     return componentName;
   }
 
@@ -248,15 +615,46 @@ function generateInstanceName(
     parts.push(booleanParts.join(' - '));
   }
 
+  // Add instance swap properties as "Property: Swapped Component"
+  const instanceSwapParts: string[] = [];
+  for (const key in instanceSwapProps) {
+    if (instanceSwapProps.hasOwnProperty(key)) {
+      instanceSwapParts.push(`${formatPropertyName(key)}: ${instanceSwapProps[key].name}`);
+    }
+  }
+  
+  if (instanceSwapParts.length > 0) {
+    parts.push(instanceSwapParts.join(' - '));
+  }
+
+  // Add text properties as "Property: "Sample""
+  const textParts: string[] = [];
+  for (const key in textProps) {
+    if (textProps.hasOwnProperty(key)) {
+      textParts.push(`${formatPropertyName(key)}: "${textProps[key]}"`);
+    }
+  }
+  
+  if (textParts.length > 0) {
+    parts.push(textParts.join(' - '));
+  }
+
+  // Add the interaction state as "Interaction State: Hover"
+  for (const key in interactionProps) {
+    if (interactionProps.hasOwnProperty(key)) {
+      parts.push(`${key}: ${interactionProps[key]}`);
+    }
+  }
+
   return parts.join(' - ');
 }
 
 // Helper function to get variable collections
-function getVariableCollections(): VariableCollectionInfo[] {
+async function getVariableCollections(): Promise<VariableCollectionInfo[]> {
   const collections: VariableCollectionInfo[] = [];
   
   try {
-    const figmaCollections = figma.variables.getLocalVariableCollections();
+    const figmaCollections = await figma.variables.getLocalVariableCollectionsAsync();
     
     for (const collection of figmaCollections) {
       const modes = collection.modes.map(mode => ({
@@ -277,22 +675,64 @@ function getVariableCollections(): VariableCollectionInfo[] {
   return collections;
 }
 
+// Helper function to get the local text styles and color variables labels can be bound to
+async function getLabelStyles(): Promise<{ textStyles: Array<{ id: string; name: string }>; colorVariables: Array<{ id: string; name: string }> }> {
+  try {
+    const textStyles = await figma.getLocalTextStylesAsync();
+    const colorVariables = await figma.variables.getLocalVariablesAsync('COLOR');
+    return {
+      textStyles: textStyles.map(style => ({ id: style.id, name: style.name })),
+      colorVariables: colorVariables.map(variable => ({ id: variable.id, name: variable.name }))
+    };
+  } catch (error) {
+    console.error('Error getting label styles:', error);
+    return { textStyles: [], colorVariables: [] };
+  }
+}
+
 // Helper function to set variable mode
-// Note: Variable modes are document-level settings in Figma
-// We'll create instances with the current mode and note that mode changes
-// may require manual adjustment or the instances will use the current document mode
-function setVariableMode(collectionId: string, modeId: string) {
+// Variable modes are applied as explicit mode overrides on a frame, so every
+// instance inside the frame resolves its variables with that mode
+// Returns the mode name, or null if the collection or mode no longer exists
+async function setVariableMode(node: FrameNode, collectionId: string, modeId: string): Promise<string | null> {
   try {
-    const collection = figma.variables.getVariableCollectionById(collectionId);
+    const collection = await figma.variables.getVariableCollectionByIdAsync(collectionId);
     if (collection) {
-      // Variable modes are set at the document level
-      // Instances created will use the current document mode
-      // This is a limitation of the Figma API - modes cannot be set programmatically
-      console.log(`Note: Variable mode ${modeId} for collection ${collectionId} should be set manually in the document`);
+      const mode = collection.modes.find(m => m.modeId === modeId);
+      if (mode) {
+        node.setExplicitVariableModeForCollection(collection, modeId);
+        return mode.name;
+      }
     }
   } catch (error) {
     console.error('Error accessing variable collection:', error);
   }
+  return null;
+}
+
+// Helper function to resolve a selected node to the component to generate from
+// Instances resolve to their main component, or to its component set for variants,
+// which may be a remote component from a library; null for any other node
+async function resolveSourceNode(selected: SceneNode): Promise<ComponentNode | ComponentSetNode | null> {
+  if (selected.type === 'INSTANCE') {
+    const mainComponent = await selected.getMainComponentAsync();
+    if (!mainComponent) {
+      return null;
+    }
+    return mainComponent.parent && mainComponent.parent.type === 'COMPONENT_SET'
+      ? mainComponent.parent
+      : mainComponent;
+  }
+  if (selected.type === 'COMPONENT' || selected.type === 'COMPONENT_SET') {
+    return selected;
+  }
+  return null;
+}
+
+// Helper function to get the component and component set of a selected component, component set or instance
+async function resolveComponentInfo(selected: SceneNode): Promise<{ component: ComponentNode; componentSet: ComponentSetNode | null } | null> {
+  const source = await resolveSourceNode(selected);
+  return source ? getComponentFromSelection(source) : null;
 }
 
 // Helper function to get the component and component set from selection
@@ -402,271 +842,3646 @@ function getAvailableBooleanProperties(component: ComponentNode | ComponentSetNo
   return booleanProperties;
 }
 
-// Main function to generate instances
-async function generateInstances(options: GenerateOptions) {
-  const selection = figma.currentPage.selection;
-  
-  if (selection.length === 0) {
-    figma.notify('Please select a component or component set on the canvas first');
-    return;
-  }
-
-  const selected = selection[0];
-  const componentInfo = getComponentFromSelection(selected);
-  
-  if (!componentInfo) {
-    if (selected.type === 'COMPONENT_SET') {
-      figma.notify('Selected component set has no component variants. Please select a component set with variants.');
-    } else {
-      figma.notify(`Selected item is not a component or component set. Selected: ${selected.type}. Please select a component or component set.`);
-    }
-    return;
+// Helper function to get the property definitions that apply to a component
+// Variants of a component set share the definitions of their parent set
+function getComponentPropertyDefinitions(component: ComponentNode | ComponentSetNode): ComponentPropertyDefinitions | undefined {
+  if (component.type === 'COMPONENT_SET') {
+    return (component as ComponentSetNode).componentPropertyDefinitions;
   }
-  
-  const { component, componentSet } = componentInfo;
-  
-  // If multiple items selected, use the first one and notify
-  if (selection.length > 1) {
-    figma.notify(`Multiple items selected. Using the first component: "${component.name}"`);
+  const comp = component as ComponentNode;
+  if (comp.parent && comp.parent.type === 'COMPONENT_SET') {
+    return (comp.parent as ComponentSetNode).componentPropertyDefinitions;
   }
+  return comp.componentPropertyDefinitions;
+}
 
-  // Use component set name if available, otherwise use component name
-  const componentName = componentSet ? componentSet.name : component.name;
-  
-  // Determine the source for variant and boolean combinations
-  // If we have a component set, use it directly
-  // If we have a variant component (child of component set), use its parent
-  // Otherwise, use the component itself
-  let variantSource: ComponentNode | ComponentSetNode;
-  let booleanSource: ComponentNode | ComponentSetNode;
-  
-  if (componentSet) {
-    // We have a component set - use it directly
-    variantSource = componentSet;
-    booleanSource = componentSet;
-  } else if (component.parent && component.parent.type === 'COMPONENT_SET') {
-    // Component is a variant - use its parent component set
-    variantSource = component.parent as ComponentSetNode;
-    booleanSource = component.parent as ComponentSetNode;
-  } else {
-    // Non-variant component - use it directly
-    variantSource = component;
-    booleanSource = component;
-  }
-  
-  // Get all combinations, then filter based on selected options
-  let variantCombinations = options.includeVariants
-    ? getAllVariantCombinations(variantSource)
-    : [{}];
+// Separator between the layer name of an exposed nested instance and its property names
+const NESTED_PROPERTY_SEPARATOR = ' › ';
 
-  let booleanCombinations = options.includeBooleans
-    ? getAllBooleanCombinations(booleanSource)
-    : [{}];
+// Helper function to get the name of a property of an exposed nested instance
+function getNestedPropertyKey(instanceName: string, property: string): string {
+  return `${instanceName}${NESTED_PROPERTY_SEPARATOR}${property}`;
+}
 
-  // Filter variant combinations based on selected variants
-  if (options.includeVariants && options.selectedVariants && Object.keys(options.selectedVariants).length > 0) {
-    variantCombinations = variantCombinations.filter(combo => {
-      for (const propName in options.selectedVariants) {
-        if (options.selectedVariants.hasOwnProperty(propName)) {
-          const selectedValues = options.selectedVariants[propName];
-          if (selectedValues && selectedValues.length > 0) {
-            // If this property exists in combo, check if its value is selected
-            if (combo.hasOwnProperty(propName)) {
-              if (selectedValues.indexOf(combo[propName]) === -1) {
-                return false; // This value is not selected
-              }
-            }
-          }
+// Helper function to split property values into the component's own and those of
+// each exposed nested instance, keyed by the nested instance's layer name
+function splitNestedProperties(props: Record<string, string | boolean>): {
+  own: Record<string, string | boolean>;
+  nested: Record<string, Record<string, string | boolean>>;
+} {
+  const own: Record<string, string | boolean> = {};
+  const nested: Record<string, Record<string, string | boolean>> = {};
+  for (const key in props) {
+    if (props.hasOwnProperty(key)) {
+      const index = key.lastIndexOf(NESTED_PROPERTY_SEPARATOR);
+      if (index === -1) {
+        own[key] = props[key];
+      } else {
+        const instanceName = key.slice(0, index);
+        if (!nested[instanceName]) {
+          nested[instanceName] = {};
         }
+        nested[instanceName][key.slice(index + NESTED_PROPERTY_SEPARATOR.length)] = props[key];
       }
-      return true;
-    });
+    }
   }
+  return { own, nested };
+}
 
-  // Filter boolean combinations based on selected booleans
-  if (options.includeBooleans && options.selectedBooleans && options.selectedBooleans.length > 0) {
-    booleanCombinations = booleanCombinations.filter(combo => {
-      // Check if all properties in combo are in selectedBooleans
-      for (const propName in combo) {
-        if (combo.hasOwnProperty(propName)) {
-          if (options.selectedBooleans.indexOf(propName) === -1) {
-            return false; // This boolean property is not selected
-          }
-        }
+// Helper function to get the exposed nested instances of a component, once per layer name
+// Every variant of a component set is searched, default variant first, since not every
+// variant may contain them
+function getExposedInstances(component: ComponentNode | ComponentSetNode): InstanceNode[] {
+  const source = component.type === 'COMPONENT' && component.parent && component.parent.type === 'COMPONENT_SET'
+    ? component.parent
+    : component;
+  const templates: ComponentNode[] = [];
+  if (source.type === 'COMPONENT_SET') {
+    if (source.defaultVariant) {
+      templates.push(source.defaultVariant);
+    }
+    for (const child of source.children) {
+      if (child.type === 'COMPONENT' && child !== source.defaultVariant) {
+        templates.push(child);
       }
-      return true;
-    });
+    }
+  } else {
+    templates.push(source);
   }
 
-  // Use component set name for the main frame
-  const mainFrameName = componentSet ? componentSet.name : component.name;
-  
-  // Create main frame with horizontal wrapping layout
-  const mainFrame = figma.createFrame();
-  mainFrame.name = `${mainFrameName} - instance table`;
-  mainFrame.layoutMode = 'HORIZONTAL';
-  mainFrame.layoutWrap = 'WRAP';
-  mainFrame.primaryAxisSizingMode = 'FIXED';
-  mainFrame.counterAxisSizingMode = 'AUTO';
-  mainFrame.resize(1100, 100); // Set max width to 1100px, height will auto-adjust
-  mainFrame.paddingLeft = 0;
-  mainFrame.paddingRight = 0;
-  mainFrame.paddingTop = 0;
-  mainFrame.paddingBottom = 0;
-  mainFrame.itemSpacing = 20;
-  mainFrame.counterAxisSpacing = 20;
-  mainFrame.fills = []; // Transparent background
-
-  // Helper function to create a dashed line separator
-  function createDashedLine(width: number, height: number, isVertical: boolean, thickness: number = 1): RectangleNode {
-    const line = figma.createRectangle();
-    line.name = 'Separator';
-    line.resize(width, height);
-    line.fills = [];
-    line.strokes = [{ type: 'SOLID', color: { r: 0.592, g: 0.278, b: 1.0 } }]; // #9747FF
-    line.strokeWeight = thickness;
-    line.strokeAlign = 'CENTER';
-    if (thickness === 1) {
-      line.dashPattern = [4, 4]; // Dashed pattern for thin lines
-    }
-    // Thick lines (thickness > 1) are solid (no dash pattern)
-    line.strokeCap = 'ROUND';
-    return line;
-  }
-
-  // Helper function to create a label text (font already loaded)
-  function createLabel(text: string): TextNode {
-    const label = figma.createText();
-    label.characters = text;
-    label.fontSize = 10; // Smaller font for property labels
-    label.fills = [{ type: 'SOLID', color: { r: 0.592, g: 0.278, b: 1.0 } }]; // #9747FF
-    return label;
-  }
-
-  // Organize instances by property combinations for matrix layout
-  // Group by boolean properties first (columns), then by variant properties (rows)
-  const booleanKeys = booleanCombinations.length > 0 && Object.keys(booleanCombinations[0]).length > 0
-    ? Object.keys(booleanCombinations[0])
-    : [];
-  const variantKeys = variantCombinations.length > 0 && Object.keys(variantCombinations[0]).length > 0
-    ? Object.keys(variantCombinations[0])
-    : [];
-
-  // Create instances and organize them
-  const instanceMap = new Map<string, { instance: InstanceNode; variantProps: Record<string, string>; booleanProps: Record<string, boolean> }>();
-  
-  for (const variantProps of variantCombinations) {
-    for (const booleanProps of booleanCombinations) {
-      // Create instance
-      const instance = component.createInstance();
-      
-      // Batch all properties together for faster setting
-      const allProps: Record<string, string | boolean> = {};
-      
-      // Add variant properties
-      for (const key in variantProps) {
-        if (variantProps.hasOwnProperty(key)) {
-          allProps[key] = variantProps[key];
-        }
-      }
-      
-      // Add boolean properties
-      for (const key in booleanProps) {
-        if (booleanProps.hasOwnProperty(key)) {
-          allProps[key] = booleanProps[key];
-        }
-      }
-      
-      // Set all properties at once
-      try {
-        instance.setProperties(allProps);
-      } catch (error) {
-        console.warn(`Could not set properties:`, error);
+  const exposed: InstanceNode[] = [];
+  for (const template of templates) {
+    for (const node of template.findAllWithCriteria({ types: ['INSTANCE'] })) {
+      if (node.isExposedInstance && !exposed.some(e => e.name === node.name)) {
+        exposed.push(node);
       }
+    }
+  }
+  return exposed;
+}
 
-      // Generate and set name
-      const instanceName = generateInstanceName(component, variantProps, booleanProps, options.naming);
-      instance.name = instanceName;
+// Helper function to get the variant and boolean properties of the exposed nested instances of a component
+async function getNestedInstances(component: ComponentNode | ComponentSetNode): Promise<NestedInstanceInfo[]> {
+  const nestedInstances: NestedInstanceInfo[] = [];
+  for (const exposed of getExposedInstances(component)) {
+    const nestedSource = await resolveSourceNode(exposed);
+    if (!nestedSource) {
+      continue;
+    }
 
-      // Create key for organizing
-      const variantKey = Object.keys(variantProps).map(k => `${k}=${variantProps[k]}`).join(', ') || 'default';
-      const booleanKey = Object.keys(booleanProps).map(k => `${k}=${booleanProps[k]}`).join(', ') || 'default';
-      const mapKey = `${variantKey}|${booleanKey}`;
-      
-      instanceMap.set(mapKey, { instance, variantProps, booleanProps });
+    const variantProperties: Record<string, string[]> = {};
+    const availableVariants = getAvailableVariantProperties(nestedSource);
+    for (const key in availableVariants) {
+      if (availableVariants.hasOwnProperty(key)) {
+        variantProperties[getNestedPropertyKey(exposed.name, key)] = availableVariants[key];
+      }
     }
-  }
+    const booleanProperties = getAvailableBooleanProperties(nestedSource)
+      .map(key => getNestedPropertyKey(exposed.name, key));
 
-  // Load font once for all text
-  await figma.loadFontAsync({ family: "Inter", style: "Regular" });
+    if (Object.keys(variantProperties).length > 0 || booleanProperties.length > 0) {
+      nestedInstances.push({ name: exposed.name, variantProperties, booleanProperties });
+    }
+  }
+  return nestedInstances;
+}
 
-  // Create instance frames for all instances with property labels
-  for (const [mapKey, instanceData] of instanceMap.entries()) {
-    const instanceFrame = figma.createFrame();
-    
-    // Use naming convention for the frame name
-    const frameName = generateInstanceName(component, instanceData.variantProps, instanceData.booleanProps, options.naming);
-    instanceFrame.name = frameName;
-    
-    // Set up autolayout
-    instanceFrame.layoutMode = 'VERTICAL';
-    instanceFrame.primaryAxisSizingMode = 'AUTO';
-    instanceFrame.counterAxisSizingMode = 'AUTO';
-    instanceFrame.paddingLeft = 24;
-    instanceFrame.paddingRight = 24;
-    instanceFrame.paddingTop = 24;
-    instanceFrame.paddingBottom = 24;
-    instanceFrame.itemSpacing = 8;
-    instanceFrame.clipsContent = false;
-    instanceFrame.fills = [];
-    
-    // Add instance
-    instanceFrame.appendChild(instanceData.instance);
-    
-    // Create property labels container
-    const labelsContainer = figma.createFrame();
-    labelsContainer.name = 'Property Labels';
-    labelsContainer.layoutMode = 'VERTICAL';
-    labelsContainer.primaryAxisSizingMode = 'AUTO';
-    labelsContainer.counterAxisSizingMode = 'AUTO';
-    labelsContainer.paddingLeft = 0;
-    labelsContainer.paddingRight = 0;
-    labelsContainer.paddingTop = 0;
-    labelsContainer.paddingBottom = 0;
-    labelsContainer.itemSpacing = 4;
-    labelsContainer.fills = [];
-    
-    // Add all variant properties
-    for (const key in instanceData.variantProps) {
-      if (instanceData.variantProps.hasOwnProperty(key)) {
-        const propLabel = createLabel(`${key}: ${instanceData.variantProps[key]}`);
-        labelsContainer.appendChild(propLabel);
+// Helper function to set the properties of the exposed nested instances of a created instance
+// Throws when a nested instance isn't exposed in the variant the instance shows
+function setNestedProperties(instance: InstanceNode, nested: Record<string, Record<string, string | boolean>>) {
+  for (const instanceName in nested) {
+    if (nested.hasOwnProperty(instanceName)) {
+      const nestedInstance = instance.exposedInstances.find(node => node.name === instanceName);
+      if (!nestedInstance) {
+        throw new Error(`The nested instance "${instanceName}" is not exposed in this variant`);
       }
+      nestedInstance.setProperties(nested[instanceName]);
     }
-    
-    // Add all boolean properties
-    for (const key in instanceData.booleanProps) {
-      if (instanceData.booleanProps.hasOwnProperty(key)) {
-        const propLabel = createLabel(`${key}: ${instanceData.booleanProps[key] ? 'True' : 'False'}`);
-        labelsContainer.appendChild(propLabel);
+  }
+}
+
+// Helper function to get the default value of every property of a component
+// Booleans as 'true'/'false' and instance swaps as the default component's ID
+function getPropertyDefaults(component: ComponentNode | ComponentSetNode): Record<string, string> {
+  const defaults: Record<string, string> = {};
+  const componentSet = component.type === 'COMPONENT_SET'
+    ? component
+    : (component.parent && component.parent.type === 'COMPONENT_SET' ? component.parent : null);
+  if (componentSet && componentSet.defaultVariant) {
+    const variantProperties = componentSet.defaultVariant.variantProperties || {};
+    for (const key in variantProperties) {
+      if (variantProperties.hasOwnProperty(key)) {
+        defaults[key] = variantProperties[key];
       }
     }
-    
-    instanceFrame.appendChild(labelsContainer);
-    mainFrame.appendChild(instanceFrame);
   }
 
-  // All instances have been added directly to mainFrame with horizontal wrapping layout
+  const definitions = getComponentPropertyDefinitions(component) || {};
+  for (const key in definitions) {
+    if (definitions.hasOwnProperty(key) && definitions[key].type !== 'VARIANT') {
+      defaults[key] = String(definitions[key].defaultValue);
+    }
+  }
 
-  // Position main frame near the component
-  mainFrame.x = component.x + component.width + 100;
-  mainFrame.y = component.y;
+  // Exposed nested instances default to the values they have in the component
+  for (const exposed of getExposedInstances(component)) {
+    const properties = exposed.componentProperties;
+    for (const key in properties) {
+      if (properties.hasOwnProperty(key) && (properties[key].type === 'VARIANT' || properties[key].type === 'BOOLEAN')) {
+        defaults[getNestedPropertyKey(exposed.name, key)] = String(properties[key].value);
+      }
+    }
+  }
+
+  // Instances show their variant without an interaction unless a state is chosen
+  defaults[INTERACTION_PROPERTY] = INTERACTION_DEFAULT;
+  return defaults;
+}
+
+// Helper function to check whether a property value is the property's default
+function isDefaultValue(defaults: Record<string, string>, key: string, value: string | boolean | SwapValue): boolean {
+  if (!defaults.hasOwnProperty(key)) {
+    return false;
+  }
+  const stringValue = typeof value === 'object' ? value.id : String(value);
+  return defaults[key] === stringValue;
+}
+
+// Helper function to check whether every property of a combination has its default value
+function isDefaultCombination(defaults: Record<string, string>, combination: CombinationProps): boolean {
+  const props: Record<string, string | boolean | SwapValue> = Object.assign(
+    {},
+    combination.variantProps,
+    combination.booleanProps,
+    combination.instanceSwapProps,
+    combination.textProps,
+    combination.interactionProps
+  );
+  for (const key in props) {
+    if (props.hasOwnProperty(key) && !isDefaultValue(defaults, key, props[key])) {
+      return false;
+    }
+  }
+  return true;
+}
+
+// Helper function to get a property value of a combination, with instance swaps as their component
+function getCombinationValue(combination: CombinationProps, key: string): string | boolean | SwapValue {
+  if (combination.variantProps.hasOwnProperty(key)) {
+    return combination.variantProps[key];
+  }
+  if (combination.booleanProps.hasOwnProperty(key)) {
+    return combination.booleanProps[key];
+  }
+  if (combination.instanceSwapProps.hasOwnProperty(key)) {
+    return combination.instanceSwapProps[key];
+  }
+  if (combination.interactionProps.hasOwnProperty(key)) {
+    return combination.interactionProps[key];
+  }
+  return combination.textProps[key];
+}
+
+// Prefix of the ID of a swap value whose library component is only imported when generating
+const SWAP_KEY_PREFIX = 'key:';
+
+// Local components and component sets by key, so the document is searched once rather than per key
+let localComponentIndex: Map<string, ComponentNode | ComponentSetNode> | null = null;
+
+// The outcome of looking up a key, including misses, so a missing component isn't searched for again
+// A miss is tried again with an import once, when generating
+interface ComponentLookup {
+  node: ComponentNode | ComponentSetNode | null;
+  importTried: boolean;
+}
+
+const componentKeyCache = new Map<string, ComponentLookup>();
+
+// Helper function to index the local components and component sets by key
+// Rebuilt when asked to, since components may have been added since the last search
+async function getLocalComponentIndex(rebuild: boolean): Promise<Map<string, ComponentNode | ComponentSetNode>> {
+  if (!localComponentIndex || rebuild) {
+    await figma.loadAllPagesAsync();
+    localComponentIndex = new Map();
+    for (const node of figma.root.findAllWithCriteria({ types: ['COMPONENT', 'COMPONENT_SET'] })) {
+      localComponentIndex.set(node.key, node);
+    }
+  }
+  return localComponentIndex;
+}
+
+// Helper function to find a component or component set by key
+// Looks in the current file first, and only imports from published libraries when allowed,
+// so selecting a component never imports library components
+async function findComponentByKey(
+  preferredValue: InstanceSwapPreferredValue,
+  allowImport: boolean
+): Promise<ComponentNode | ComponentSetNode | null> {
+  const cached = componentKeyCache.get(preferredValue.key);
+  if (cached && (cached.node ? !cached.node.removed : cached.importTried || !allowImport)) {
+    return cached.node;
+  }
+
+  let node = (await getLocalComponentIndex(false)).get(preferredValue.key);
+  if ((!node || node.removed) && allowImport) {
+    node = (await getLocalComponentIndex(true)).get(preferredValue.key);
+  }
+  if (node && !node.removed && node.type === preferredValue.type) {
+    componentKeyCache.set(preferredValue.key, { node, importTried: false });
+    return node;
+  }
+
+  if (!allowImport) {
+    componentKeyCache.set(preferredValue.key, { node: null, importTried: false });
+    return null;
+  }
+
+  try {
+    const imported = preferredValue.type === 'COMPONENT_SET'
+      ? await figma.importComponentSetByKeyAsync(preferredValue.key)
+      : await figma.importComponentByKeyAsync(preferredValue.key);
+    componentKeyCache.set(preferredValue.key, { node: imported, importTried: true });
+    return imported;
+  } catch (error) {
+    console.warn(`Could not import component ${preferredValue.key}:`, error);
+    componentKeyCache.set(preferredValue.key, { node: null, importTried: true });
+    return null;
+  }
+}
+
+// Helper function to check whether a swap value was selected, by node ID or, for library components, by key
+function isSwapValueSelected(value: SwapValue, selectedIds: string[]): boolean {
+  return selectedIds.indexOf(value.id) !== -1 ||
+    (!!value.key && selectedIds.indexOf(`${SWAP_KEY_PREFIX}${value.key}`) !== -1);
+}
+
+// Helper function to get available instance swap properties and the components they can swap to
+// The default component comes first, followed by the property's preferred values
+// Without imports, library components that aren't in the file yet are listed by key, to be imported when generating
+async function getAvailableInstanceSwapProperties(
+  component: ComponentNode | ComponentSetNode,
+  allowImport: boolean
+): Promise<Record<string, SwapValue[]>> {
+  const result: Record<string, SwapValue[]> = {};
+  const componentProperties = getComponentPropertyDefinitions(component);
+  if (!componentProperties) {
+    return result;
+  }
+
+  for (const key in componentProperties) {
+    if (componentProperties.hasOwnProperty(key)) {
+      const prop = componentProperties[key];
+      if (prop.type !== 'INSTANCE_SWAP') {
+        continue;
+      }
+
+      const values: SwapValue[] = [];
+      const defaultNode = await figma.getNodeByIdAsync(prop.defaultValue as string);
+      if (defaultNode && defaultNode.type === 'COMPONENT') {
+        values.push({ id: defaultNode.id, name: defaultNode.name });
+      }
+
+      for (const preferredValue of prop.preferredValues || []) {
+        const node = await findComponentByKey(preferredValue, allowImport);
+        if (!node) {
+          const cached = componentKeyCache.get(preferredValue.key);
+          if (!allowImport && !(cached && cached.importTried)) {
+            values.push({
+              id: `${SWAP_KEY_PREFIX}${preferredValue.key}`,
+              name: `Library component ${preferredValue.key.slice(0, 6)}`,
+              key: preferredValue.key
+            });
+          }
+          continue;
+        }
+        // Swapping to a component set uses its default variant
+        const target = node.type === 'COMPONENT_SET' ? node.defaultVariant : node;
+        if (target && !values.some(value => value.id === target.id)) {
+          values.push({ id: target.id, name: node.name, key: preferredValue.key });
+        }
+      }
+
+      result[key] = values;
+    }
+  }
+
+  return result;
+}
+
+// Helper function to get all instance swap combinations for the given values
+function getAllInstanceSwapCombinations(swapValues: Record<string, SwapValue[]>): Array<Record<string, SwapValue>> {
+  const propertyNames = Object.keys(swapValues).filter(name => swapValues[name].length > 0);
+  if (propertyNames.length === 0) {
+    return [{}];
+  }
+
+  const combinations: Array<Record<string, SwapValue>> = [];
+
+  function generateCombinations(index: number, current: Record<string, SwapValue>) {
+    if (index >= propertyNames.length) {
+      // Create a copy of current object
+      const copy: Record<string, SwapValue> = {};
+      for (const key in current) {
+        if (current.hasOwnProperty(key)) {
+          copy[key] = current[key];
+        }
+      }
+      combinations.push(copy);
+      return;
+    }
+
+    const propertyName = propertyNames[index];
+    for (const value of swapValues[propertyName]) {
+      current[propertyName] = value;
+      generateCombinations(index + 1, current);
+    }
+  }
+
+  generateCombinations(0, {});
+  return combinations;
+}
+
+// Helper function to get available text properties and their default values
+function getAvailableTextProperties(component: ComponentNode | ComponentSetNode): Record<string, string> {
+  const result: Record<string, string> = {};
+  const componentProperties = getComponentPropertyDefinitions(component);
+  if (componentProperties) {
+    for (const key in componentProperties) {
+      if (componentProperties.hasOwnProperty(key)) {
+        const prop = componentProperties[key];
+        if (prop.type === 'TEXT') {
+          result[key] = prop.defaultValue as string;
+        }
+      }
+    }
+  }
+  return result;
+}
+
+// Helper function to get all text combinations for the given sample strings
+function getAllTextCombinations(textSamples: Record<string, string[]>): Array<Record<string, string>> {
+  const propertyNames = Object.keys(textSamples).filter(name => textSamples[name].length > 0);
+  if (propertyNames.length === 0) {
+    return [{}];
+  }
+
+  const combinations: Array<Record<string, string>> = [];
+
+  function generateCombinations(index: number, current: Record<string, string>) {
+    if (index >= propertyNames.length) {
+      // Create a copy of current object
+      const copy: Record<string, string> = {};
+      for (const key in current) {
+        if (current.hasOwnProperty(key)) {
+          copy[key] = current[key];
+        }
+      }
+      combinations.push(copy);
+      return;
+    }
+
+    const propertyName = propertyNames[index];
+    for (const value of textSamples[propertyName]) {
+      current[propertyName] = value;
+      generateCombinations(index + 1, current);
+    }
+  }
+
+  generateCombinations(0, {});
+  return combinations;
+}
+
+// Helper function to load every font used by the text layers of a component
+// Text properties can only be set on an instance once its fonts are loaded
+async function loadComponentFonts(component: ComponentNode | ComponentSetNode) {
+  const textNodes = component.findAllWithCriteria({ types: ['TEXT'] });
+  const fonts: FontName[] = [];
+  for (const textNode of textNodes) {
+    const textFonts = textNode.characters.length > 0
+      ? textNode.getRangeAllFontNames(0, textNode.characters.length)
+      : [textNode.fontName as FontName];
+    for (const font of textFonts) {
+      if (!fonts.some(f => f.family === font.family && f.style === font.style)) {
+        fonts.push(font);
+      }
+    }
+  }
+  // A font that can't be loaded fails only the text samples that use it, which are reported then
+  await Promise.all(fonts.map(font => figma.loadFontAsync(font).catch(() => undefined)));
+}
+
+// The property values of one cell in the instance table
+interface CombinationProps {
+  variantProps: Record<string, string>;
+  booleanProps: Record<string, boolean>;
+  instanceSwapProps: Record<string, SwapValue>;
+  textProps: Record<string, string>;
+  interactionProps: Record<string, string>; // Interaction state -> 'Default' or the trigger whose variant is shown
+}
+
+interface InstanceData extends CombinationProps {
+  instance: InstanceNode;
+  failure?: CombinationFailure; // Set on a kept instance whose combination failed
+  accessibilityWarnings?: AccessibilityWarning[]; // Set on checked instances
+}
+
+// A combination that could not be created, and why
+// 'missing-variant': no variant of the component set has its variant values, or its variant
+// doesn't change to the interaction state
+// 'invalid-property': the instance rejected its property values
+// 'font': a text property couldn't be set because a font couldn't be loaded
+interface CombinationFailure {
+  combination: string;
+  reason: 'missing-variant' | 'invalid-property' | 'font';
+  message: string;
+}
+
+// Plugin data stored on a generated table, used to regenerate it in place
+interface InstanceTableData {
+  componentId: string;
+  componentKey: string;
+  componentType: 'COMPONENT' | 'COMPONENT_SET';
+  options: GenerateOptions;
+  available?: AvailableValues; // Not set on tables generated before it was stored
+}
+
+// The property values a component offered when its table was generated
+// Used to tell "every value" apart from a selection when values are added later
+interface AvailableValues {
+  variants: Record<string, string[]>;
+  booleans: string[];
+  instanceSwaps: Record<string, string[]>; // Property name -> component IDs
+}
+
+interface InstanceTableResult {
+  mainFrame: FrameNode;
+  instanceCount: number; // Instances created without failures
+  failures: CombinationFailure[];
+  excluded: number; // Combinations excluded by rules
+  accessibility: AccessibilitySummary | null; // Null when no accessibility checks were chosen
+  exportData: CombinationExport;
+}
+
+// The generated combination set, exported for text props tables
+interface CombinationExport {
+  component: string;
+  componentId: string;
+  properties: ExportProperty[];
+  combinations: ExportCombination[];
+}
+
+interface ExportProperty {
+  name: string; // Without its ID suffix
+  type: 'variant' | 'boolean' | 'instanceSwap' | 'text' | 'interaction';
+  values: string[];
+  defaultValue: string | null;
+}
+
+interface ExportCombination {
+  name: string;
+  nodeId: string;
+  mode: string | null; // Brand mode of the group the instance is in
+  values: Record<string, string>; // Property name -> value
+  isDefault: boolean; // Whether every property has its default value
+}
+
+// Formats and PNG scales of the images exported for every cell of a table
+interface ImageExportSettings {
+  formats: Array<'PNG' | 'SVG'>;
+  scales: number[];
+}
+
+// Plugin data keys for generated tables and their cells
+const TABLE_DATA_KEY = 'instance-table';
+const CELL_DATA_KEY = 'combination';
+
+// Helper function to store the combination a cell was generated for
+function tagInstanceCell(cell: FrameNode, combination: CombinationProps) {
+  cell.setPluginData(CELL_DATA_KEY, JSON.stringify({
+    variantProps: combination.variantProps,
+    booleanProps: combination.booleanProps,
+    instanceSwapProps: combination.instanceSwapProps,
+    textProps: combination.textProps,
+    interactionProps: combination.interactionProps
+  }));
+}
+
+// Helper function to create a dashed line separator
+function createDashedLine(width: number, height: number, isVertical: boolean, thickness: number = 1): RectangleNode {
+  const line = figma.createRectangle();
+  line.name = 'Separator';
+  line.resize(width, height);
+  line.fills = [];
+  line.strokes = [{ type: 'SOLID', color: { r: 0.592, g: 0.278, b: 1.0 } }]; // #9747FF
+  line.strokeWeight = thickness;
+  line.strokeAlign = 'CENTER';
+  if (thickness === 1) {
+    line.dashPattern = [4, 4]; // Dashed pattern for thin lines
+  }
+  // Thick lines (thickness > 1) are solid (no dash pattern)
+  line.strokeCap = 'ROUND';
+  return line;
+}
+
+// Helper function to create a label text (font must be loaded first)
+function createLabel(text: string, labelStyle: LabelStyle): TextNode {
+  const label = figma.createText();
+  label.fontName = labelStyle.fontName; // Set before the characters, so they use a loaded font
+  label.characters = text;
+  label.fontSize = labelStyle.fontSize;
+  label.fills = labelStyle.fills;
+  labelStyle.labels.push(label);
+  return label;
+}
+
+// Helper function to format a property value for a label
+function formatPropertyLabel(key: string, value: string | boolean, labelStyle: LabelStyle): string {
+  const name = labelStyle.cleanNames ? stripPropertyId(key) : key;
+  if (typeof value === 'boolean') {
+    return `${name}: ${value ? 'True' : 'False'}`;
+  }
+  return `${name}: ${value}`;
+}
+
+// Helper function to add a property label to a cell, unless the label options hide it
+function appendPropertyLabel(container: FrameNode, key: string, value: string | boolean | SwapValue, labelStyle: LabelStyle) {
+  if (labelStyle.visibility === 'non-default' && isDefaultValue(labelStyle.defaults, key, value)) {
+    return;
+  }
+  container.appendChild(createLabel(getPropertyLabelText(key, value, labelStyle), labelStyle));
+}
+
+// Helper function to get the label text of a property value
+// Values that differ from the default are marked when the label options ask for it
+function getPropertyLabelText(key: string, value: string | boolean | SwapValue, labelStyle: LabelStyle): string {
+  const labelValue = typeof value === 'object' ? value.name : value;
+  const text = formatPropertyLabel(key, labelValue, labelStyle);
+  return labelStyle.markChanges && !isDefaultValue(labelStyle.defaults, key, value) ? `${text} *` : text;
+}
+
+// Helper function to create the "Default" label of the default combination's cell
+function createDefaultLabel(labelStyle: LabelStyle): TextNode {
+  const label = createLabel('Default', labelStyle);
+  label.name = 'Default';
+  return label;
+}
+
+// Helper function to outline the default combination's cell in the label color
+function highlightDefaultCell(cell: FrameNode, labelStyle: LabelStyle) {
+  cell.strokes = labelStyle.fills;
+  cell.strokeWeight = 2;
+  cell.strokeAlign = 'INSIDE';
+  cell.cornerRadius = 4;
+}
+
+// Red of the outline and label of failed cells
+const FAILURE_COLOR: RGB = { r: 0.949, g: 0.282, b: 0.133 }; // #F24822
+
+// Short descriptions of failure reasons, used on the canvas
+const FAILURE_LABELS: Record<CombinationFailure['reason'], string> = {
+  'missing-variant': 'Variant missing',
+  'invalid-property': 'Invalid property values',
+  'font': 'Font could not be loaded'
+};
+
+// Helper function to mark the cell of a failed combination so it can't pass unnoticed
+function markFailedCell(cell: FrameNode, failure: CombinationFailure, labelStyle: LabelStyle) {
+  cell.strokes = [{ type: 'SOLID', color: FAILURE_COLOR }];
+  cell.strokeWeight = 2;
+  cell.strokeAlign = 'INSIDE';
+  cell.dashPattern = [4, 4];
+  cell.cornerRadius = 4;
+
+  const label = createLabel(`Failed: ${FAILURE_LABELS[failure.reason]}`, labelStyle);
+  label.name = 'Failure';
+  label.fills = [{ type: 'SOLID', color: FAILURE_COLOR }];
+  cell.appendChild(label);
+}
+
+// An accessibility check that the instance of a cell didn't pass
+// 'contrast': a visible text layer passes WCAG AA but not AAA ('warning'), or fails AA ('error')
+// 'touch-target': the instance is smaller than the minimum touch target ('error')
+interface AccessibilityWarning {
+  check: 'contrast' | 'touch-target';
+  severity: 'warning' | 'error';
+  message: string;
+}
+
+// The accessibility checks of a table, counted per instance
+interface AccessibilitySummary {
+  checked: number;
+  contrastFailures: number; // Instances with text that fails AA
+  contrastAAOnly: number; // Instances with text that passes AA but not AAA
+  smallTargets: number;
+}
+
+const DEFAULT_MIN_TOUCH_TARGET = 44;
+const WARNING_COLOR: RGB = { r: 1, g: 0.651, b: 0.161 }; // #FFA629
+const WHITE: RGB = { r: 1, g: 1, b: 1 };
+
+// Required contrast ratios of normal and large text
+const CONTRAST_AA = { normal: 4.5, large: 3 };
+const CONTRAST_AAA = { normal: 7, large: 4.5 };
+
+// Helper function to get the topmost visible solid paint, or null when there is none
+function getSolidColor(paints: ReadonlyArray<Paint> | typeof figma.mixed): { color: RGB; opacity: number } | null {
+  if (paints === figma.mixed) {
+    return null;
+  }
+  for (let i = paints.length - 1; i >= 0; i--) {
+    const paint = paints[i];
+    if (paint.type === 'SOLID' && paint.visible !== false) {
+      return { color: paint.color, opacity: paint.opacity === undefined ? 1 : paint.opacity };
+    }
+  }
+  return null;
+}
+
+// Helper function to blend a translucent color over a background
+function blendColor(color: RGB, opacity: number, background: RGB): RGB {
+  return {
+    r: color.r * opacity + background.r * (1 - opacity),
+    g: color.g * opacity + background.g * (1 - opacity),
+    b: color.b * opacity + background.b * (1 - opacity)
+  };
+}
+
+// Helper function to get the WCAG relative luminance of a color
+function getRelativeLuminance(color: RGB): number {
+  const channel = (value: number) => value <= 0.03928 ? value / 12.92 : Math.pow((value + 0.055) / 1.055, 2.4);
+  return 0.2126 * channel(color.r) + 0.7152 * channel(color.g) + 0.0722 * channel(color.b);
+}
+
+// Helper function to get the WCAG contrast ratio of two colors
+function getContrastRatio(first: RGB, second: RGB): number {
+  const lighter = Math.max(getRelativeLuminance(first), getRelativeLuminance(second));
+  const darker = Math.min(getRelativeLuminance(first), getRelativeLuminance(second));
+  return (lighter + 0.05) / (darker + 0.05);
+}
+
+// Helper function to get the color behind a layer from the nearest filled parent layer
+// Sibling layers underneath aren't taken into account; without a fill the table background is used
+function getBackgroundColor(node: BaseNode | null, tableBackground: RGB): RGB {
+  if (!node || node.type === 'PAGE' || node.type === 'DOCUMENT') {
+    return tableBackground;
+  }
+  if ('fills' in node && node.visible) {
+    const fill = getSolidColor(node.fills);
+    if (fill) {
+      return fill.opacity >= 1 ? fill.color : blendColor(fill.color, fill.opacity, getBackgroundColor(node.parent, tableBackground));
+    }
+  }
+  return getBackgroundColor(node.parent, tableBackground);
+}
+
+// Helper function to check whether a layer and its parent layers up to the instance are visible
+function isLayerVisible(node: SceneNode, instance: InstanceNode): boolean {
+  let current: BaseNode | null = node;
+  while (current && current !== instance) {
+    if ('visible' in current && !current.visible) {
+      return false;
+    }
+    current = current.parent;
+  }
+  return true;
+}
+
+// Helper function to check whether a text layer counts as large text for WCAG
+// Text of mixed sizes or weights is treated as normal text, which has the stricter ratios
+function isLargeText(node: TextNode): boolean {
+  if (node.fontSize === figma.mixed) {
+    return false;
+  }
+  const bold = node.fontWeight !== figma.mixed && node.fontWeight >= 700;
+  return node.fontSize >= 24 || (bold && node.fontSize >= 18.66);
+}
+
+// Helper function to check the contrast of the visible text layers of an instance
+// Returns a warning for the text layer that does worst against AA and AAA, if any falls short of AAA
+function checkTextContrast(instance: InstanceNode, tableBackground: RGB): AccessibilityWarning | null {
+  let worst: { name: string; ratio: number; level: number } | null = null; // Level: 0 fails AA, 1 AA, 2 AAA
+
+  for (const text of instance.findAllWithCriteria({ types: ['TEXT'] })) {
+    if (!isLayerVisible(text, instance) || text.characters.trim() === '') {
+      continue;
+    }
+    const background = getBackgroundColor(text.parent, tableBackground);
+    const size = isLargeText(text) ? 'large' : 'normal';
+    const segments = text.fills === figma.mixed
+      ? text.getStyledTextSegments(['fills']).map(segment => segment.fills)
+      : [text.fills];
+
+    for (const paints of segments) {
+      const fill = getSolidColor(paints);
+      if (!fill) {
+        continue;
+      }
+      const ratio = getContrastRatio(blendColor(fill.color, fill.opacity * text.opacity, background), background);
+      const level = ratio >= CONTRAST_AAA[size] ? 2 : ratio >= CONTRAST_AA[size] ? 1 : 0;
+      if (!worst || level < worst.level || (level === worst.level && ratio < worst.ratio)) {
+        worst = { name: text.name, ratio, level };
+      }
+    }
+  }
+
+  if (!worst || worst.level === 2) {
+    return null;
+  }
+  return {
+    check: 'contrast',
+    severity: worst.level === 0 ? 'error' : 'warning',
+    message: `Contrast ${worst.ratio.toFixed(2)}:1 ${worst.level === 0 ? 'fails AA' : 'AA only'} (${worst.name})`
+  };
+}
+
+// Helper function to run the chosen accessibility checks on an instance
+function checkAccessibility(instance: InstanceNode, accessibility: AccessibilityOptions, tableBackground: RGB): AccessibilityWarning[] {
+  const warnings: AccessibilityWarning[] = [];
+
+  if (accessibility.contrast) {
+    const contrastWarning = checkTextContrast(instance, tableBackground);
+    if (contrastWarning) {
+      warnings.push(contrastWarning);
+    }
+  }
+
+  if (accessibility.touchTarget) {
+    const minimum = accessibility.minTouchTarget || DEFAULT_MIN_TOUCH_TARGET;
+    if (instance.width < minimum || instance.height < minimum) {
+      warnings.push({
+        check: 'touch-target',
+        severity: 'error',
+        message: `Touch target ${Math.round(instance.width)}×${Math.round(instance.height)} below ${minimum}×${minimum}`
+      });
+    }
+  }
+
+  return warnings;
+}
+
+// Helper function to create a badge for an accessibility warning (font must be loaded first)
+function createAccessibilityBadge(warning: AccessibilityWarning, labelStyle: LabelStyle): FrameNode {
+  const badge = figma.createFrame();
+  badge.name = warning.check === 'contrast' ? 'Contrast' : 'Touch Target';
+  badge.layoutMode = 'HORIZONTAL';
+  badge.primaryAxisSizingMode = 'AUTO';
+  badge.counterAxisSizingMode = 'AUTO';
+  badge.paddingLeft = 4;
+  badge.paddingRight = 4;
+  badge.paddingTop = 2;
+  badge.paddingBottom = 2;
+  badge.cornerRadius = 4;
+  badge.fills = [{ type: 'SOLID', color: warning.severity === 'error' ? FAILURE_COLOR : WARNING_COLOR }];
+
+  const label = createLabel(warning.message, labelStyle);
+  label.fills = [{ type: 'SOLID', color: WHITE }];
+  badge.appendChild(label);
+  return badge;
+}
+
+// Helper function to check the instance of a cell and add badges for its warnings below the labels
+// The cell must be in the table already, so the instance resolves with its variable mode
+function annotateAccessibility(
+  cell: FrameNode,
+  instanceData: InstanceData,
+  accessibility: AccessibilityOptions | undefined,
+  labelStyle: LabelStyle,
+  geometry: TableGeometry
+) {
+  if (!accessibility || (!accessibility.contrast && !accessibility.touchTarget) || instanceData.failure) {
+    return;
+  }
+
+  const pageBackground = getSolidColor(figma.currentPage.backgrounds);
+  const tableBackground = parseHexColor(geometry.background) || (pageBackground ? pageBackground.color : WHITE);
+  instanceData.accessibilityWarnings = checkAccessibility(instanceData.instance, accessibility, tableBackground);
+  if (instanceData.accessibilityWarnings.length === 0) {
+    return;
+  }
+
+  const badges = figma.createFrame();
+  badges.name = 'Accessibility';
+  badges.layoutMode = 'VERTICAL';
+  badges.primaryAxisSizingMode = 'AUTO';
+  badges.counterAxisSizingMode = 'AUTO';
+  badges.itemSpacing = 4;
+  badges.fills = [];
+  for (const warning of instanceData.accessibilityWarnings) {
+    badges.appendChild(createAccessibilityBadge(warning, labelStyle));
+  }
+  cell.appendChild(badges);
+}
+
+// Helper function to count the accessibility warnings of a table per instance
+// Returns null when no checks were chosen
+function summarizeAccessibility(
+  instanceGroups: Array<{ mode: string | null; instanceMap: Map<string, InstanceData> }>,
+  accessibility: AccessibilityOptions | undefined
+): AccessibilitySummary | null {
+  if (!accessibility || (!accessibility.contrast && !accessibility.touchTarget)) {
+    return null;
+  }
+
+  const summary: AccessibilitySummary = { checked: 0, contrastFailures: 0, contrastAAOnly: 0, smallTargets: 0 };
+  for (const { instanceMap } of instanceGroups) {
+    instanceMap.forEach(instanceData => {
+      if (!instanceData.accessibilityWarnings) {
+        return;
+      }
+      summary.checked++;
+      for (const warning of instanceData.accessibilityWarnings) {
+        if (warning.check === 'touch-target') {
+          summary.smallTargets++;
+        } else if (warning.severity === 'error') {
+          summary.contrastFailures++;
+        } else {
+          summary.contrastAAOnly++;
+        }
+      }
+    });
+  }
+  return summary;
+}
+
+// A state an interactive component changes to, read from the prototype reactions of a variant
+interface InteractionState {
+  trigger: 'Hover' | 'Press';
+  variantProps: Record<string, string>; // Variant properties of the destination variant
+}
+
+// Prototype triggers that lead to an interaction state, in the order their values are listed
+const INTERACTION_TRIGGERS: Array<{ types: string[]; trigger: InteractionState['trigger'] }> = [
+  { types: ['ON_HOVER', 'MOUSE_ENTER'], trigger: 'Hover' },
+  { types: ['ON_PRESS', 'MOUSE_DOWN'], trigger: 'Press' }
+];
+
+// Property the interaction states are varied as, whose default value is the instance's own variant
+const INTERACTION_PROPERTY = 'Interaction State';
+const INTERACTION_DEFAULT = 'Default';
+
+// Helper function to read the hover and press states of a variant from its prototype reactions
+// Only "Change to" actions that lead to another variant of the same component set count
+function getInteractionStates(variant: ComponentNode): InteractionState[] {
+  const componentSet = variant.parent && variant.parent.type === 'COMPONENT_SET' ? variant.parent as ComponentSetNode : null;
+  if (!componentSet) {
+    return [];
+  }
+
+  const states: InteractionState[] = [];
+  for (const { types, trigger } of INTERACTION_TRIGGERS) {
+    for (const reaction of variant.reactions) {
+      if (!reaction.trigger || types.indexOf(reaction.trigger.type) === -1) {
+        continue;
+      }
+      const actions = reaction.actions || (reaction.action ? [reaction.action] : []);
+      const action = actions.find(a => a.type === 'NODE' && a.navigation === 'CHANGE_TO' && !!a.destinationId);
+      const destination = action && action.type === 'NODE'
+        ? componentSet.children.find(child => child.id === action.destinationId)
+        : null;
+      if (destination && destination.type === 'COMPONENT' && destination.variantProperties) {
+        states.push({ trigger, variantProps: destination.variantProperties });
+        break;
+      }
+    }
+  }
+  return states;
+}
+
+// Helper function to list the interaction states any variant of a component changes to
+function getInteractionTriggers(component: ComponentNode | ComponentSetNode): Array<InteractionState['trigger']> {
+  const variants = component.type === 'COMPONENT_SET'
+    ? component.children.filter(child => child.type === 'COMPONENT') as ComponentNode[]
+    : [component];
+  const triggers: Array<InteractionState['trigger']> = [];
+  for (const variant of variants) {
+    for (const state of getInteractionStates(variant)) {
+      if (triggers.indexOf(state.trigger) === -1) {
+        triggers.push(state.trigger);
+      }
+    }
+  }
+  return INTERACTION_TRIGGERS.map(t => t.trigger).filter(trigger => triggers.indexOf(trigger) !== -1);
+}
+
+// Helper function to find the variant a combination's own variant values select
+// Values the combination doesn't set are those of the given variant
+function findCombinationVariant(component: ComponentNode, variantProps: Record<string, string>): ComponentNode | null {
+  if (!component.parent || component.parent.type !== 'COMPONENT_SET') {
+    return component;
+  }
+  const props: Record<string, string> = Object.assign({}, component.variantProperties || {}, variantProps);
+  const variant = component.parent.children.find(child => {
+    if (child.type !== 'COMPONENT' || !child.variantProperties) {
+      return false;
+    }
+    for (const key in props) {
+      if (props.hasOwnProperty(key) && child.variantProperties[key] !== props[key]) {
+        return false;
+      }
+    }
+    return true;
+  });
+  return variant ? variant as ComponentNode : null;
+}
+
+// Helper function to get the variant values of the interaction state a combination shows
+// Returns null when the combination's variant doesn't change to another variant on that trigger
+function getInteractionVariantProps(component: ComponentNode, combination: CombinationProps): Record<string, string> | null {
+  const trigger = combination.interactionProps[INTERACTION_PROPERTY];
+  const own = splitNestedProperties(combination.variantProps).own as Record<string, string>;
+  const variant = findCombinationVariant(component, own);
+  const state = variant ? getInteractionStates(variant).find(s => s.trigger === trigger) : undefined;
+  return state ? state.variantProps : null;
+}
+
+// Label options resolved for one table, with the font loaded
+interface LabelStyle {
+  visibility: 'all' | 'non-default' | 'none';
+  cleanNames: boolean;
+  markChanges: boolean;
+  fontName: FontName;
+  fontSize: number;
+  fills: Paint[];
+  textStyleId: string | null;
+  defaults: Record<string, string>; // Property key -> default value
+  labels: TextNode[]; // Labels created with this style, to bind the text style to
+}
+
+const DEFAULT_LABEL_FONT: FontName = { family: 'Inter', style: 'Regular' };
+const DEFAULT_LABEL_COLOR: RGB = { r: 0.592, g: 0.278, b: 1.0 }; // #9747FF
+
+// Helper function to load the label font, falling back to Inter and then to any available font
+async function loadLabelFont(fontName: FontName): Promise<FontName> {
+  for (const candidate of [fontName, DEFAULT_LABEL_FONT]) {
+    try {
+      await figma.loadFontAsync(candidate);
+      return candidate;
+    } catch (error) {
+      console.warn(`Could not load font ${candidate.family} ${candidate.style}:`, error);
+    }
+  }
+
+  const fonts = await figma.listAvailableFontsAsync();
+  const fallback = fonts.find(font => font.fontName.style === 'Regular') || fonts[0];
+  await figma.loadFontAsync(fallback.fontName);
+  return fallback.fontName;
+}
+
+// Helper function to resolve the label options of a table and load its font
+// A text style or color variable that can't be found falls back to the font and color settings
+async function resolveLabelStyle(source: ComponentNode | ComponentSetNode, options: LabelOptions | undefined): Promise<LabelStyle> {
+  const labels = options || {};
+  let fontName: FontName = {
+    family: labels.fontFamily || DEFAULT_LABEL_FONT.family,
+    style: labels.fontStyle || DEFAULT_LABEL_FONT.style
+  };
+  let fontSize = labels.fontSize || 10;
+  let textStyleId: string | null = null;
+
+  if (labels.textStyleId) {
+    const textStyle = await figma.getStyleByIdAsync(labels.textStyleId);
+    if (textStyle && textStyle.type === 'TEXT') {
+      fontName = textStyle.fontName;
+      fontSize = textStyle.fontSize;
+      textStyleId = textStyle.id;
+    }
+  }
+
+  const loadedFont = await loadLabelFont(fontName);
+  if (loadedFont !== fontName) {
+    // The text style can't be applied without its font
+    textStyleId = null;
+  }
+
+  let fill: SolidPaint = { type: 'SOLID', color: parseHexColor(labels.color) || DEFAULT_LABEL_COLOR };
+  if (labels.colorVariableId) {
+    const variable = await figma.variables.getVariableByIdAsync(labels.colorVariableId);
+    if (variable && variable.resolvedType === 'COLOR') {
+      fill = figma.variables.setBoundVariableForPaint(fill, 'color', variable);
+    }
+  }
+
+  return {
+    visibility: labels.visibility || 'all',
+    cleanNames: labels.cleanNames !== false,
+    markChanges: labels.markChanges === true,
+    fontName: loadedFont,
+    fontSize,
+    fills: [fill],
+    textStyleId,
+    defaults: getPropertyDefaults(source),
+    labels: []
+  };
+}
+
+// Helper function to bind the text style of the label options to the created labels
+async function applyLabelTextStyle(labelStyle: LabelStyle) {
+  if (!labelStyle.textStyleId) {
+    return;
+  }
+  for (const label of labelStyle.labels) {
+    await label.setTextStyleIdAsync(labelStyle.textStyleId);
+  }
+}
+
+const DEFAULT_GEOMETRY: TableGeometry = {
+  maxWidth: 1100,
+  cellPadding: 24,
+  gap: 20,
+  wrap: true,
+  equalCellSize: false,
+  placement: 'beside'
+};
+
+// Helper function to fill in the unset geometry options with their defaults
+// Negative or invalid numbers are treated as unset
+function resolveGeometry(geometry: TableGeometry | undefined): TableGeometry {
+  const resolved: TableGeometry = Object.assign({}, DEFAULT_GEOMETRY);
+  for (const key in geometry || {}) {
+    if (geometry.hasOwnProperty(key)) {
+      const value = geometry[key];
+      const isInvalidNumber = typeof value === 'number' && (isNaN(value) || value < 0);
+      if (value !== undefined && value !== null && !isInvalidNumber) {
+        resolved[key] = value;
+      }
+    }
+  }
+  resolved.maxWidth = Math.max(resolved.maxWidth, 1);
+  return resolved;
+}
+
+// Helper function to parse a hex color, returning null when it isn't valid
+function parseHexColor(color: string | undefined): RGB | null {
+  if (!color) {
+    return null;
+  }
+  try {
+    return figma.util.rgb(color);
+  } catch (error) {
+    console.warn(`Invalid color ${color}:`, error);
+    return null;
+  }
+}
+
+// Helper function to fill a new table with the background of the geometry options
+function applyTableBackground(frame: FrameNode, geometry: TableGeometry) {
+  const color = parseHexColor(geometry.background);
+  frame.fills = color ? [{ type: 'SOLID', color }] : []; // Transparent background by default
+}
+
+// Helper function to create a frame that wraps instance cells horizontally
+// Without wrapping the frame grows to fit every cell on one line
+function createTableFrame(name: string, geometry: TableGeometry): FrameNode {
+  const frame = figma.createFrame();
+  frame.name = name;
+  frame.layoutMode = 'HORIZONTAL';
+  frame.layoutWrap = geometry.wrap ? 'WRAP' : 'NO_WRAP';
+  frame.primaryAxisSizingMode = geometry.wrap ? 'FIXED' : 'AUTO';
+  frame.counterAxisSizingMode = 'AUTO';
+  if (geometry.wrap) {
+    frame.resize(geometry.maxWidth, 100); // Height will auto-adjust
+  }
+  frame.paddingLeft = 0;
+  frame.paddingRight = 0;
+  frame.paddingTop = 0;
+  frame.paddingBottom = 0;
+  frame.itemSpacing = geometry.gap;
+  frame.counterAxisSpacing = geometry.gap;
+  frame.fills = []; // Transparent background
+  return frame;
+}
+
+// Helper function to combine variant, boolean, instance swap, text and interaction combinations
+// into the full list of table cells
+function combineProperties(
+  variantCombinations: Array<Record<string, string>>,
+  booleanCombinations: Array<Record<string, boolean>>,
+  instanceSwapCombinations: Array<Record<string, SwapValue>>,
+  textCombinations: Array<Record<string, string>>,
+  interactionCombinations: Array<Record<string, string>>
+): CombinationProps[] {
+  const combinations: CombinationProps[] = [];
+  for (const variantProps of variantCombinations) {
+    for (const booleanProps of booleanCombinations) {
+      for (const instanceSwapProps of instanceSwapCombinations) {
+        for (const textProps of textCombinations) {
+          for (const interactionProps of interactionCombinations) {
+            combinations.push({ variantProps, booleanProps, instanceSwapProps, textProps, interactionProps });
+          }
+        }
+      }
+    }
+  }
+  return combinations;
+}
+
+// One property of the combination space with its possible values
+interface PropertyAxis {
+  kind: 'variantSet' | 'variant' | 'boolean' | 'instanceSwap' | 'text' | 'interaction';
+  name: string;
+  values: Array<string | boolean | SwapValue | Record<string, string>>;
+  defaultIndex: number;
+}
+
+// Helper function to turn per-type combinations into one axis per property
+// Defaults come from the component set's default variant and the property definitions
+function getPropertyAxes(
+  source: ComponentNode | ComponentSetNode,
+  variantCombinations: Array<Record<string, string>>,
+  booleanCombinations: Array<Record<string, boolean>>,
+  instanceSwapCombinations: Array<Record<string, SwapValue>>,
+  textCombinations: Array<Record<string, string>>,
+  interactionCombinations: Array<Record<string, string>>
+): PropertyAxis[] {
+  const axes: PropertyAxis[] = [];
+  const defaults = getPropertyDefaults(source);
+
+  // Sparse component sets don't contain every combination of their variant values,
+  // so the component's own variant properties form one axis of the variants that exist
+  const ownCombinations: Array<Record<string, string>> = [];
+  const nestedCombinations: Array<Record<string, string>> = [];
+  for (const combo of variantCombinations) {
+    const own: Record<string, string> = {};
+    const nested: Record<string, string> = {};
+    for (const key in combo) {
+      if (combo.hasOwnProperty(key)) {
+        if (key.indexOf(NESTED_PROPERTY_SEPARATOR) === -1) {
+          own[key] = combo[key];
+        } else {
+          nested[key] = combo[key];
+        }
+      }
+    }
+    if (!ownCombinations.some(existing => formatCombination(existing) === formatCombination(own))) {
+      ownCombinations.push(own);
+    }
+    nestedCombinations.push(nested);
+  }
+  const existingCombinations = splitExistingVariantCombinations(source, ownCombinations).existing;
+  if (existingCombinations.length > 0 && Object.keys(existingCombinations[0]).length > 0) {
+    const defaultIndex = existingCombinations.findIndex(combo => {
+      for (const key in combo) {
+        if (combo.hasOwnProperty(key) && defaults[key] !== combo[key]) {
+          return false;
+        }
+      }
+      return true;
+    });
+    axes.push({ kind: 'variantSet', name: 'Variant', values: existingCombinations, defaultIndex: Math.max(defaultIndex, 0) });
+  }
+
+  function addAxes<T extends string | boolean | SwapValue>(
+    kind: PropertyAxis['kind'],
+    combinations: Array<Record<string, T>>,
+    isSame: (a: T, b: T) => boolean,
+    getDefault: (name: string) => T | undefined
+  ) {
+    const names = Object.keys(combinations[0] || {});
+    for (const name of names) {
+      const values: T[] = [];
+      for (const combo of combinations) {
+        if (!values.some(value => isSame(value, combo[name]))) {
+          values.push(combo[name]);
+        }
+      }
+      const defaultValue = getDefault(name);
+      const defaultIndex = defaultValue === undefined ? 0 : values.findIndex(value => isSame(value, defaultValue));
+      axes.push({ kind, name, values, defaultIndex: Math.max(defaultIndex, 0) });
+    }
+  }
+
+  addAxes<string>('variant', nestedCombinations, (a, b) => a === b, name => defaults[name]);
+  addAxes<boolean>('boolean', booleanCombinations, (a, b) => a === b,
+    name => defaults.hasOwnProperty(name) ? defaults[name] === 'true' : undefined);
+  addAxes<SwapValue>('instanceSwap', instanceSwapCombinations, (a, b) => a.id === b.id, () => undefined);
+  addAxes<string>('text', textCombinations, (a, b) => a === b, () => undefined);
+  addAxes<string>('interaction', interactionCombinations, (a, b) => a === b, name => defaults[name]);
+
+  return axes;
+}
+
+// Helper function to vary one property at a time from the default baseline
+// Returns rows of value indexes, one index per axis
+function getOneAtATimeRows(axes: PropertyAxis[]): number[][] {
+  const baseline = axes.map(axis => axis.defaultIndex);
+  const rows: number[][] = [baseline];
+  axes.forEach((axis, axisIndex) => {
+    for (let valueIndex = 0; valueIndex < axis.values.length; valueIndex++) {
+      if (valueIndex !== axis.defaultIndex) {
+        const row = baseline.slice();
+        row[axisIndex] = valueIndex;
+        rows.push(row);
+      }
+    }
+  });
+  return rows;
+}
+
+// Helper function to cover every pair of values of any two properties (all-pairs)
+// Greedily builds rows that each cover as many uncovered pairs as possible
+// Returns rows of value indexes, one index per axis
+function getPairwiseRows(axes: PropertyAxis[]): number[][] {
+  if (axes.length < 2) {
+    return getOneAtATimeRows(axes);
+  }
+
+  const pairKey = (i: number, a: number, j: number, b: number) => `${i}:${a},${j}:${b}`;
+  const uncovered = new Set<string>();
+  for (let i = 0; i < axes.length; i++) {
+    for (let j = i + 1; j < axes.length; j++) {
+      for (let a = 0; a < axes[i].values.length; a++) {
+        for (let b = 0; b < axes[j].values.length; b++) {
+          uncovered.add(pairKey(i, a, j, b));
+        }
+      }
+    }
+  }
+
+  const rows: number[][] = [];
+  while (uncovered.size > 0) {
+    // Seed the row with the first uncovered pair
+    const row: number[] = axes.map(() => -1);
+    const seed = uncovered.values().next().value.split(',').map((part: string) => part.split(':').map(Number));
+    row[seed[0][0]] = seed[0][1];
+    row[seed[1][0]] = seed[1][1];
+
+    // Fill the remaining properties with the value that covers the most new pairs
+    for (let k = 0; k < axes.length; k++) {
+      if (row[k] !== -1) {
+        continue;
+      }
+      let bestValue = axes[k].defaultIndex;
+      let bestCount = -1;
+      for (let v = 0; v < axes[k].values.length; v++) {
+        let count = 0;
+        for (let other = 0; other < axes.length; other++) {
+          if (other === k || row[other] === -1) {
+            continue;
+          }
+          const key = other < k ? pairKey(other, row[other], k, v) : pairKey(k, v, other, row[other]);
+          if (uncovered.has(key)) {
+            count++;
+          }
+        }
+        if (count > bestCount) {
+          bestCount = count;
+          bestValue = v;
+        }
+      }
+      row[k] = bestValue;
+    }
+
+    for (let i = 0; i < axes.length; i++) {
+      for (let j = i + 1; j < axes.length; j++) {
+        uncovered.delete(pairKey(i, row[i], j, row[j]));
+      }
+    }
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+// Helper function to turn a row of value indexes back into combination properties
+function toCombinationProps(axes: PropertyAxis[], row: number[]): CombinationProps {
+  const combination: CombinationProps = { variantProps: {}, booleanProps: {}, instanceSwapProps: {}, textProps: {}, interactionProps: {} };
+  axes.forEach((axis, axisIndex) => {
+    const value = axis.values[row[axisIndex]];
+    if (axis.kind === 'variantSet') {
+      const variantProps = value as Record<string, string>;
+      for (const key in variantProps) {
+        if (variantProps.hasOwnProperty(key)) {
+          combination.variantProps[key] = variantProps[key];
+        }
+      }
+    } else if (axis.kind === 'variant') {
+      combination.variantProps[axis.name] = value as string;
+    } else if (axis.kind === 'boolean') {
+      combination.booleanProps[axis.name] = value as boolean;
+    } else if (axis.kind === 'instanceSwap') {
+      combination.instanceSwapProps[axis.name] = value as SwapValue;
+    } else if (axis.kind === 'interaction') {
+      combination.interactionProps[axis.name] = value as string;
+    } else {
+      combination.textProps[axis.name] = value as string;
+    }
+  });
+  return combination;
+}
+
+// Helper function to get the values to pass to setProperties for a combination
+function getPropertyValues(combination: CombinationProps): Record<string, string | boolean> {
+  const allProps: Record<string, string | boolean> = {};
+  
+  // Add variant properties
+  for (const key in combination.variantProps) {
+    if (combination.variantProps.hasOwnProperty(key)) {
+      allProps[key] = combination.variantProps[key];
+    }
+  }
+  
+  // Add boolean properties
+  for (const key in combination.booleanProps) {
+    if (combination.booleanProps.hasOwnProperty(key)) {
+      allProps[key] = combination.booleanProps[key];
+    }
+  }
+  
+  // Add instance swap properties (swapped by component ID)
+  for (const key in combination.instanceSwapProps) {
+    if (combination.instanceSwapProps.hasOwnProperty(key)) {
+      allProps[key] = combination.instanceSwapProps[key].id;
+    }
+  }
+  
+  // Add text properties
+  for (const key in combination.textProps) {
+    if (combination.textProps.hasOwnProperty(key)) {
+      allProps[key] = combination.textProps[key];
+    }
+  }
+  
+  return allProps;
+}
+
+// Number of combinations created between yields to the UI
+const CREATION_CHUNK_SIZE = 50;
+
+// Progress of a generation started from the UI, which the UI can cancel
+interface GenerationRun {
+  current: number;
+  total: number;
+  cancelled: boolean;
+  isBatch: boolean; // Counted against the total of every component of the batch, rather than per table
+}
+
+// The generation that is running, if any
+let activeRun: GenerationRun | null = null;
+
+// Helper function to let the UI update between chunks of work
+// Reports the progress of the run, and throws when the run was cancelled
+async function yieldToUI(run: GenerationRun | null) {
+  if (run) {
+    postToUI({ type: 'generation-progress', current: run.current, total: run.total });
+  }
+  await new Promise(resolve => setTimeout(resolve, 0));
+  if (run && run.cancelled) {
+    throw new Error('Generation cancelled');
+  }
+}
+
+// Helper function to create an instance for every combination
+// Creates the instances in chunks, and removes them again when the run is cancelled
+async function createInstanceMap(
+  component: ComponentNode,
+  combinations: CombinationProps[],
+  options: GenerateOptions,
+  failures: CombinationFailure[],
+  run: GenerationRun | null
+): Promise<Map<string, InstanceData>> {
+  const instanceMap = new Map<string, InstanceData>();
+  
+  try {
+    for (let i = 0; i < combinations.length; i++) {
+      if (i > 0 && i % CREATION_CHUNK_SIZE === 0) {
+        await yieldToUI(run);
+      }
+      if (run) {
+        run.current++;
+      }
+      createInstance(component, combinations[i], options, failures, instanceMap);
+    }
+  } catch (error) {
+    instanceMap.forEach(data => data.instance.remove());
+    throw error;
+  }
+
+  return instanceMap;
+}
+
+// Helper function to count the instances of a map whose combinations didn't fail
+function countCreatedInstances(instanceMap: Map<string, InstanceData>): number {
+  let count = 0;
+  instanceMap.forEach(data => {
+    if (!data.failure) {
+      count++;
+    }
+  });
+  return count;
+}
+
+// Helper function to add a failure to a run's failures, once per combination and reason
+function addFailure(failures: CombinationFailure[], failure: CombinationFailure) {
+  if (!failures.some(f => f.combination === failure.combination && f.reason === failure.reason)) {
+    failures.push(failure);
+  }
+}
+
+// Helper function to create the instance of one combination and add it to the map
+// A combination whose properties can't be set is reported as a failure instead
+function createInstance(
+  component: ComponentNode,
+  combination: CombinationProps,
+  options: GenerateOptions,
+  failures: CombinationFailure[],
+  instanceMap: Map<string, InstanceData>
+) {
+  // Create instance
+  const instance = component.createInstance();
+  
+  // Batch all properties together for faster setting
+  const allProps = getPropertyValues(combination);
+  
+  // The interaction state tells combinations of the same properties apart
+  const combinationKey = formatCombination(Object.assign({}, allProps, combination.interactionProps));
+
+  // Set all properties at once
+  // An instance whose properties can't be set would show the wrong variant,
+  // so it is removed, or kept to be marked as failed when asked to
+  let failure: CombinationFailure | undefined;
+  try {
+    const { own, nested } = splitNestedProperties(allProps);
+    instance.setProperties(own);
+
+    // Show an interaction state by switching to the variant its prototype interaction changes to
+    const state = combination.interactionProps[INTERACTION_PROPERTY];
+    if (state && state !== INTERACTION_DEFAULT) {
+      const stateProps = getInteractionVariantProps(component, combination);
+      if (!stateProps) {
+        throw new Error(`The variant doesn't change to another variant on ${state}`);
+      }
+      instance.setProperties(stateProps);
+    }
+    setNestedProperties(instance, nested);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    failure = {
+      combination: combinationKey,
+      reason: /font/i.test(message) ? 'font' : 'invalid-property',
+      message
+    };
+    addFailure(failures, failure);
+    if (!options.markFailures) {
+      instance.remove();
+      return;
+    }
+  }
+
+  // Generate and set name
+  const instanceName = generateInstanceName(component, combination, options);
+  instance.name = instanceName;
+
+  instanceMap.set(combinationKey, {
+    instance,
+    variantProps: combination.variantProps,
+    booleanProps: combination.booleanProps,
+    instanceSwapProps: combination.instanceSwapProps,
+    textProps: combination.textProps,
+    interactionProps: combination.interactionProps,
+    failure
+  });
+}
+
+// Helper function to wrap each instance in a frame with property labels
+// and append the frames to the container (font must be loaded first)
+// Yields to the UI between chunks of cells, so the run can be cancelled
+async function appendInstanceCells(
+  container: FrameNode,
+  component: ComponentNode,
+  instanceMap: Map<string, InstanceData>,
+  naming: NamingOptions,
+  labelStyle: LabelStyle,
+  geometry: TableGeometry,
+  highlightDefault: boolean,
+  accessibility: AccessibilityOptions | undefined,
+  run: GenerationRun | null
+) {
+  const cellFrames: FrameNode[] = [];
+  for (const [mapKey, instanceData] of instanceMap.entries()) {
+    if (cellFrames.length > 0 && cellFrames.length % CREATION_CHUNK_SIZE === 0) {
+      await yieldToUI(run);
+    }
+    const instanceFrame = figma.createFrame();
+    
+    // Use naming convention for the frame name
+    const frameName = generateInstanceName(component, instanceData, naming);
+    instanceFrame.name = frameName;
+    
+    // Set up autolayout
+    instanceFrame.layoutMode = 'VERTICAL';
+    instanceFrame.primaryAxisSizingMode = 'AUTO';
+    instanceFrame.counterAxisSizingMode = 'AUTO';
+    instanceFrame.paddingLeft = geometry.cellPadding;
+    instanceFrame.paddingRight = geometry.cellPadding;
+    instanceFrame.paddingTop = geometry.cellPadding;
+    instanceFrame.paddingBottom = geometry.cellPadding;
+    instanceFrame.itemSpacing = 8;
+    instanceFrame.clipsContent = false;
+    instanceFrame.fills = [];
+    
+    // Add instance
+    // Failed cells are not tagged, so they are left out of image exports
+    instanceFrame.appendChild(instanceData.instance);
+    if (instanceData.failure) {
+      markFailedCell(instanceFrame, instanceData.failure, labelStyle);
+    } else {
+      tagInstanceCell(instanceFrame, instanceData);
+    }
+    
+    // Flag the default combination
+    if (highlightDefault && !instanceData.failure && isDefaultCombination(labelStyle.defaults, instanceData)) {
+      highlightDefaultCell(instanceFrame, labelStyle);
+      instanceFrame.appendChild(createDefaultLabel(labelStyle));
+    }
+    
+    // Create property labels container, unless labels are hidden
+    if (labelStyle.visibility !== 'none') {
+      const labelsContainer = figma.createFrame();
+      labelsContainer.name = 'Property Labels';
+      labelsContainer.layoutMode = 'VERTICAL';
+      labelsContainer.primaryAxisSizingMode = 'AUTO';
+      labelsContainer.counterAxisSizingMode = 'AUTO';
+      labelsContainer.paddingLeft = 0;
+      labelsContainer.paddingRight = 0;
+      labelsContainer.paddingTop = 0;
+      labelsContainer.paddingBottom = 0;
+      labelsContainer.itemSpacing = 4;
+      labelsContainer.fills = [];
+      
+      // Add all variant properties
+      for (const key in instanceData.variantProps) {
+        if (instanceData.variantProps.hasOwnProperty(key)) {
+          appendPropertyLabel(labelsContainer, key, instanceData.variantProps[key], labelStyle);
+        }
+      }
+      
+      // Add all boolean properties
+      for (const key in instanceData.booleanProps) {
+        if (instanceData.booleanProps.hasOwnProperty(key)) {
+          appendPropertyLabel(labelsContainer, key, instanceData.booleanProps[key], labelStyle);
+        }
+      }
+      
+      // Add all instance swap properties with the swapped component's name
+      for (const key in instanceData.instanceSwapProps) {
+        if (instanceData.instanceSwapProps.hasOwnProperty(key)) {
+          appendPropertyLabel(labelsContainer, key, instanceData.instanceSwapProps[key], labelStyle);
+        }
+      }
+      
+      // Add all text properties
+      for (const key in instanceData.textProps) {
+        if (instanceData.textProps.hasOwnProperty(key)) {
+          appendPropertyLabel(labelsContainer, key, instanceData.textProps[key], labelStyle);
+        }
+      }
+      
+      // Add the interaction state
+      for (const key in instanceData.interactionProps) {
+        if (instanceData.interactionProps.hasOwnProperty(key)) {
+          appendPropertyLabel(labelsContainer, key, instanceData.interactionProps[key], labelStyle);
+        }
+      }
+      
+      instanceFrame.appendChild(labelsContainer);
+    }
+    container.appendChild(instanceFrame);
+    annotateAccessibility(instanceFrame, instanceData, accessibility, labelStyle, geometry);
+    cellFrames.push(instanceFrame);
+  }
+
+  // Size every cell like the largest one
+  if (geometry.equalCellSize) {
+    let width = 0;
+    let height = 0;
+    for (const cellFrame of cellFrames) {
+      width = Math.max(width, cellFrame.width);
+      height = Math.max(height, cellFrame.height);
+    }
+    for (const cellFrame of cellFrames) {
+      cellFrame.primaryAxisSizingMode = 'FIXED';
+      cellFrame.counterAxisSizingMode = 'FIXED';
+      cellFrame.resize(width, height);
+    }
+  }
+}
+
+// Helper function to create a frame that stacks grid rows vertically
+function createGridFrame(name: string): FrameNode {
+  const frame = figma.createFrame();
+  frame.name = name;
+  frame.layoutMode = 'VERTICAL';
+  frame.primaryAxisSizingMode = 'AUTO';
+  frame.counterAxisSizingMode = 'AUTO';
+  frame.itemSpacing = 0;
+  frame.fills = []; // Transparent background
+  return frame;
+}
+
+// Helper function to create a horizontal grid row
+function createGridRow(name: string): FrameNode {
+  const row = figma.createFrame();
+  row.name = name;
+  row.layoutMode = 'HORIZONTAL';
+  row.primaryAxisSizingMode = 'AUTO';
+  row.counterAxisSizingMode = 'AUTO';
+  row.itemSpacing = 0;
+  row.fills = [];
+  return row;
+}
+
+// Helper function to create a fixed size grid cell with centered content
+function createGridCell(name: string, width: number, height: number): FrameNode {
+  const cell = figma.createFrame();
+  cell.name = name;
+  cell.layoutMode = 'VERTICAL';
+  cell.primaryAxisSizingMode = 'FIXED';
+  cell.counterAxisSizingMode = 'FIXED';
+  cell.primaryAxisAlignItems = 'CENTER';
+  cell.counterAxisAlignItems = 'CENTER';
+  cell.itemSpacing = 4;
+  cell.clipsContent = false;
+  cell.fills = [];
+  cell.resize(width, height);
+  return cell;
+}
+
+// Helper function to get the property values of an instance as one record
+function getCellProperties(instanceData: CombinationProps): Record<string, string | boolean> {
+  const props: Record<string, string | boolean> = {};
+  for (const key in instanceData.variantProps) {
+    if (instanceData.variantProps.hasOwnProperty(key)) {
+      props[key] = instanceData.variantProps[key];
+    }
+  }
+  for (const key in instanceData.booleanProps) {
+    if (instanceData.booleanProps.hasOwnProperty(key)) {
+      props[key] = instanceData.booleanProps[key];
+    }
+  }
+  for (const key in instanceData.instanceSwapProps) {
+    if (instanceData.instanceSwapProps.hasOwnProperty(key)) {
+      props[key] = instanceData.instanceSwapProps[key].name;
+    }
+  }
+  for (const key in instanceData.textProps) {
+    if (instanceData.textProps.hasOwnProperty(key)) {
+      props[key] = instanceData.textProps[key];
+    }
+  }
+  for (const key in instanceData.interactionProps) {
+    if (instanceData.interactionProps.hasOwnProperty(key)) {
+      props[key] = instanceData.interactionProps[key];
+    }
+  }
+  return props;
+}
+
+// Helper function to build a key from the given properties of a combination
+function getAxisKey(props: Record<string, string | boolean>, keys: string[]): string {
+  return keys.map(k => `${k}=${props[k]}`).join(', ') || 'default';
+}
+
+// Helper function to lay instances out as a matrix with row and column headers
+// Properties not assigned to columns are laid out on rows (font must be loaded first)
+// Headers always show every label, since they name the rows and columns
+// Yields to the UI between chunks of cells, so the run can be cancelled
+async function appendInstanceGrid(
+  container: FrameNode,
+  component: ComponentNode,
+  instanceMap: Map<string, InstanceData>,
+  naming: NamingOptions,
+  rowProperties: string[],
+  columnProperties: string[],
+  labelStyle: LabelStyle,
+  geometry: TableGeometry,
+  highlightDefault: boolean,
+  accessibility: AccessibilityOptions | undefined,
+  run: GenerationRun | null
+) {
+  const entries = Array.from(instanceMap.values());
+  if (entries.length === 0) {
+    return;
+  }
+
+  // Resolve which properties go on which axis
+  const propertyNames = Object.keys(getCellProperties(entries[0]));
+  const columnKeys = columnProperties.filter(name => propertyNames.indexOf(name) !== -1);
+  const rowKeys = rowProperties.filter(name => propertyNames.indexOf(name) !== -1 && columnKeys.indexOf(name) === -1);
+  for (const name of propertyNames) {
+    if (rowKeys.indexOf(name) === -1 && columnKeys.indexOf(name) === -1) {
+      rowKeys.push(name);
+    }
+  }
+
+  // Collect unique rows and columns in combination order
+  const rows: Array<{ key: string; props: Record<string, string | boolean>; data: InstanceData }> = [];
+  const columns: Array<{ key: string; props: Record<string, string | boolean>; data: InstanceData }> = [];
+  const cells = new Map<string, InstanceData>();
+  for (const instanceData of entries) {
+    const props = getCellProperties(instanceData);
+    const rowKey = getAxisKey(props, rowKeys);
+    const columnKey = getAxisKey(props, columnKeys);
+    if (!rows.some(row => row.key === rowKey)) {
+      rows.push({ key: rowKey, props, data: instanceData });
+    }
+    if (!columns.some(column => column.key === columnKey)) {
+      columns.push({ key: columnKey, props, data: instanceData });
+    }
+    cells.set(`${rowKey}|${columnKey}`, instanceData);
+  }
+
+  // Size every column to its widest instance and every row to its tallest
+  const columnWidths = columns.map(column => {
+    let width = 0;
+    for (const row of rows) {
+      const cell = cells.get(`${row.key}|${column.key}`);
+      if (cell) {
+        width = Math.max(width, cell.instance.width);
+      }
+    }
+    return width + geometry.cellPadding * 2;
+  });
+  const rowHeights = rows.map(row => {
+    let height = 0;
+    for (const column of columns) {
+      const cell = cells.get(`${row.key}|${column.key}`);
+      if (cell) {
+        height = Math.max(height, cell.instance.height);
+      }
+    }
+    return height + geometry.cellPadding * 2;
+  });
+  if (geometry.equalCellSize) {
+    const cellWidth = Math.max(...columnWidths);
+    const cellHeight = Math.max(...rowHeights);
+    columnWidths.fill(cellWidth);
+    rowHeights.fill(cellHeight);
+  }
+
+  // A separator sits between groups, where the outermost property of the axis changes
+  const startsColumnGroup = (index: number) => index > 0 && columnKeys.length > 0 &&
+    columns[index].props[columnKeys[0]] !== columns[index - 1].props[columnKeys[0]];
+  const startsRowGroup = (index: number) => index > 0 && rowKeys.length > 0 &&
+    rows[index].props[rowKeys[0]] !== rows[index - 1].props[rowKeys[0]];
+
+  // Create row headers first so the header column can use the widest one
+  const rowHeaders = rows.map((row, index) => {
+    const header = createGridCell(`Row: ${row.key}`, 1, rowHeights[index]);
+    header.counterAxisAlignItems = 'MIN';
+    header.paddingRight = geometry.cellPadding;
+    for (const key of rowKeys) {
+      header.appendChild(createLabel(getPropertyLabelText(key, getCombinationValue(row.data, key), labelStyle), labelStyle));
+    }
+    header.counterAxisSizingMode = 'AUTO';
+    return header;
+  });
+  let rowHeaderWidth = 0;
+  for (const header of rowHeaders) {
+    rowHeaderWidth = Math.max(rowHeaderWidth, header.width);
+  }
+
+  // Header row with the column labels, drawn once
+  const headerRow = createGridRow('Column Headers');
+  headerRow.appendChild(createGridCell('Corner', Math.max(rowHeaderWidth, 1), 1));
+  columns.forEach((column, index) => {
+    if (startsColumnGroup(index)) {
+      const line = createDashedLine(0.01, 1, true);
+      line.layoutAlign = 'STRETCH';
+      headerRow.appendChild(line);
+    }
+    const header = createGridCell(`Column: ${column.key}`, columnWidths[index], 1);
+    header.primaryAxisAlignItems = 'MAX';
+    header.paddingBottom = 8;
+    for (const key of columnKeys) {
+      header.appendChild(createLabel(getPropertyLabelText(key, getCombinationValue(column.data, key), labelStyle), labelStyle));
+    }
+    header.primaryAxisSizingMode = 'AUTO';
+    headerRow.appendChild(header);
+  });
+  container.appendChild(headerRow);
+
+  // Row headers not added to a row yet are removed when the run is cancelled
+  let cellCount = 0;
+  try {
+    for (let rowIndex = 0; rowIndex < rows.length; rowIndex++) {
+      const row = rows[rowIndex];
+      if (startsRowGroup(rowIndex)) {
+        const line = createDashedLine(1, 0.01, false);
+        line.layoutAlign = 'STRETCH';
+        container.appendChild(line);
+      }
+
+      // The row is added first, so its instances resolve with the variable mode of the table when checked
+      const gridRow = createGridRow(row.key);
+      container.appendChild(gridRow);
+      const rowHeader = rowHeaders[rowIndex];
+      rowHeader.counterAxisSizingMode = 'FIXED';
+      rowHeader.resize(Math.max(rowHeaderWidth, 1), rowHeights[rowIndex]);
+      gridRow.appendChild(rowHeader);
+
+      for (let columnIndex = 0; columnIndex < columns.length; columnIndex++) {
+        const column = columns[columnIndex];
+        if (cellCount > 0 && cellCount % CREATION_CHUNK_SIZE === 0) {
+          await yieldToUI(run);
+        }
+        cellCount++;
+        if (startsColumnGroup(columnIndex)) {
+          const line = createDashedLine(0.01, 1, true);
+          line.layoutAlign = 'STRETCH';
+          gridRow.appendChild(line);
+        }
+        const cellData = cells.get(`${row.key}|${column.key}`);
+        const cellName = cellData
+          ? generateInstanceName(component, cellData, naming)
+          : 'Empty';
+        const cell = createGridCell(cellName, columnWidths[columnIndex], rowHeights[rowIndex]);
+        if (cellData) {
+          cell.appendChild(cellData.instance);
+          if (cellData.failure) {
+            markFailedCell(cell, cellData.failure, labelStyle);
+          } else {
+            tagInstanceCell(cell, cellData);
+          }
+          if (highlightDefault && !cellData.failure && isDefaultCombination(labelStyle.defaults, cellData)) {
+            highlightDefaultCell(cell, labelStyle);
+            cell.appendChild(createDefaultLabel(labelStyle));
+          }
+        }
+        gridRow.appendChild(cell);
+        if (cellData) {
+          annotateAccessibility(cell, cellData, accessibility, labelStyle, geometry);
+        }
+      }
+    }
+  } catch (error) {
+    for (const header of rowHeaders) {
+      if (!header.removed) {
+        header.remove();
+      }
+    }
+    throw error;
+  }
+}
+
+// Helper function to create the frame that holds one table in the chosen layout
+function createTableContainer(name: string, options: GenerateOptions): FrameNode {
+  return options.layout === 'grid' ? createGridFrame(name) : createTableFrame(name, resolveGeometry(options.geometry));
+}
+
+// Helper function to fill a table container in the chosen layout
+async function populateTable(
+  container: FrameNode,
+  component: ComponentNode,
+  instanceMap: Map<string, InstanceData>,
+  options: GenerateOptions,
+  labelStyle: LabelStyle,
+  run: GenerationRun | null
+) {
+  if (options.layout === 'grid') {
+    await appendInstanceGrid(
+      container,
+      component,
+      instanceMap,
+      options,
+      options.rowProperties || [],
+      options.columnProperties || [],
+      labelStyle,
+      resolveGeometry(options.geometry),
+      options.highlightDefault !== false,
+      options.accessibility,
+      run
+    );
+  } else {
+    await appendInstanceCells(
+      container,
+      component,
+      instanceMap,
+      options,
+      labelStyle,
+      resolveGeometry(options.geometry),
+      options.highlightDefault !== false,
+      options.accessibility,
+      run
+    );
+  }
+}
+
+// Helper function to place a new table beside the selected node, on a new page or at the viewport center
+async function placeTable(mainFrame: FrameNode, anchor: SceneNode, placement: TableGeometry['placement']) {
+  if (placement === 'new-page') {
+    const page = figma.createPage();
+    page.name = mainFrame.name;
+    page.appendChild(mainFrame);
+    mainFrame.x = 0;
+    mainFrame.y = 0;
+    await figma.setCurrentPageAsync(page);
+  } else if (placement === 'viewport') {
+    const center = figma.viewport.center;
+    mainFrame.x = Math.round(center.x - mainFrame.width / 2);
+    mainFrame.y = Math.round(center.y - mainFrame.height / 2);
+  } else {
+    // Position main frame near the selected node, which may be nested inside frames
+    const bounds = anchor.absoluteBoundingBox || { x: anchor.x, y: anchor.y, width: anchor.width, height: anchor.height };
+    mainFrame.x = bounds.x + bounds.width + 100;
+    mainFrame.y = bounds.y;
+  }
+}
+
+// Number of instances above which the user is asked to confirm a run
+const DEFAULT_CONFIRM_THRESHOLD = 500;
+
+// Helper function to get how many instances a run may create before it needs to be confirmed
+function getConfirmThreshold(options: GenerateOptions): number {
+  return options.confirmThreshold === undefined ? DEFAULT_CONFIRM_THRESHOLD : options.confirmThreshold;
+}
+
+// Main function to generate instances
+// Runs above the confirmation threshold are sent back to the UI to be confirmed first
+// Returns the created table, or null when none could be created
+async function generateInstances(options: GenerateOptions, confirmed: boolean): Promise<InstanceTableResult | null> {
+  const selection = figma.currentPage.selection;
+  
+  if (selection.length === 0) {
+    figma.notify('Please select a component, component set or instance on the canvas first');
+    return null;
+  }
+
+  const selected = selection[0];
+  const componentInfo = await resolveComponentInfo(selected);
+  
+  if (!componentInfo) {
+    if (selected.type === 'COMPONENT_SET') {
+      figma.notify('Selected component set has no component variants. Please select a component set with variants.');
+    } else if (selected.type === 'INSTANCE') {
+      figma.notify('The main component of the selected instance could not be found.');
+    } else {
+      figma.notify(`Selected item is not a component, component set or instance. Selected: ${selected.type}. Please select a component, component set or instance.`);
+    }
+    return null;
+  }
+  
+  const { component } = componentInfo;
+  
+  // If multiple items selected, use the first one and notify
+  if (selection.length > 1) {
+    figma.notify(`Multiple items selected. Using the first component: "${component.name}"`);
+  }
+
+  const threshold = getConfirmThreshold(options);
+  if (!confirmed && threshold > 0) {
+    const count = await countInstances(componentInfo, options);
+    if (count > threshold) {
+      postToUI({ type: 'confirm-generation', count });
+      return null;
+    }
+  }
+
+  const table = await runTableGeneration(componentInfo, options, null);
+  if (!table) {
+    return null;
+  }
+
+  await placeTable(table.mainFrame, selected, resolveGeometry(options.geometry).placement);
+
+  // Select the main frame
+  figma.currentPage.selection = [table.mainFrame];
+  figma.viewport.scrollAndZoomIntoView([table.mainFrame]);
+
+  reportGeneration(table, 'Created');
+  return table;
+}
+
+// Helper function to check whether a combination has the value of a rule condition
+function matchesCondition(props: Record<string, string | boolean>, condition: RuleCondition): boolean {
+  return props.hasOwnProperty(condition.property) && String(props[condition.property]) === condition.value;
+}
+
+// Helper function to drop combinations that break any of the rules
+// A target property that isn't part of the combination can't break an 'only' rule
+function applyRules(combinations: CombinationProps[], rules: CombinationRule[]): CombinationProps[] {
+  if (rules.length === 0) {
+    return combinations;
+  }
+
+  return combinations.filter(combination => {
+    const props = getCellProperties(combination);
+    for (const rule of rules) {
+      if (!matchesCondition(props, rule.when)) {
+        continue;
+      }
+      if (rule.effect === 'exclude' && matchesCondition(props, rule.target)) {
+        return false;
+      }
+      if (rule.effect === 'only' && props.hasOwnProperty(rule.target.property) && !matchesCondition(props, rule.target)) {
+        return false;
+      }
+    }
+    return true;
+  });
+}
+
+// Helper function to get the node whose property definitions and variants apply
+// If we have a component set, use it directly
+// If we have a variant component (child of component set), use its parent
+// Otherwise, use the component itself
+function getPropertySource(componentInfo: { component: ComponentNode; componentSet: ComponentSetNode | null }): ComponentNode | ComponentSetNode {
+  const { component, componentSet } = componentInfo;
+  if (componentSet) {
+    return componentSet;
+  } else if (component.parent && component.parent.type === 'COMPONENT_SET') {
+    return component.parent as ComponentSetNode;
+  }
+  return component;
+}
+
+// Helper function to combine every combination with every value of another property
+function addPropertyValues<T>(combinations: Array<Record<string, T>>, name: string, values: T[]): Array<Record<string, T>> {
+  if (values.length === 0) {
+    return combinations;
+  }
+  const result: Array<Record<string, T>> = [];
+  for (const combo of combinations) {
+    for (const value of values) {
+      const copy: Record<string, T> = Object.assign({}, combo);
+      copy[name] = value;
+      result.push(copy);
+    }
+  }
+  return result;
+}
+
+// Helper function to get every combination to create for a component with the given options
+// Combinations excluded by the component's rules are dropped, and combinations whose
+// variant doesn't exist in the component set are dropped and reported as failures
+async function getCombinations(
+  componentInfo: { component: ComponentNode; componentSet: ComponentSetNode | null },
+  options: GenerateOptions,
+  allowImport: boolean
+): Promise<{ combinations: CombinationProps[]; failures: CombinationFailure[]; excluded: number }> {
+  const source = getPropertySource(componentInfo);
+  
+  // Get all combinations, then filter based on selected options
+  let variantCombinations = options.includeVariants
+    ? getAllVariantCombinations(source)
+    : [{}];
+
+  let booleanCombinations = options.includeBooleans
+    ? getAllBooleanCombinations(source)
+    : [{}];
+
+  // Filter variant combinations based on selected variants
+  if (options.includeVariants && options.selectedVariants && Object.keys(options.selectedVariants).length > 0) {
+    variantCombinations = variantCombinations.filter(combo => {
+      for (const propName in options.selectedVariants) {
+        if (options.selectedVariants.hasOwnProperty(propName)) {
+          const selectedValues = options.selectedVariants[propName];
+          if (selectedValues && selectedValues.length > 0) {
+            // If this property exists in combo, check if its value is selected
+            if (combo.hasOwnProperty(propName)) {
+              if (selectedValues.indexOf(combo[propName]) === -1) {
+                return false; // This value is not selected
+              }
+            }
+          }
+        }
+      }
+      return true;
+    });
+  }
+
+  // Keep only the selected boolean properties; unselected ones stay at their default value
+  if (options.includeBooleans && options.selectedBooleans && options.selectedBooleans.length > 0) {
+    const selectedCombinations: Array<Record<string, boolean>> = [];
+    const seen: string[] = [];
+    for (const combo of booleanCombinations) {
+      const selectedCombo: Record<string, boolean> = {};
+      for (const propName in combo) {
+        if (combo.hasOwnProperty(propName) && options.selectedBooleans.indexOf(propName) !== -1) {
+          selectedCombo[propName] = combo[propName];
+        }
+      }
+      const key = formatCombination(selectedCombo);
+      if (seen.indexOf(key) === -1) {
+        seen.push(key);
+        selectedCombinations.push(selectedCombo);
+      }
+    }
+    booleanCombinations = selectedCombinations;
+  }
+
+  // Vary the chosen properties of exposed nested instances
+  // Unlike the component's own properties, nested ones keep their value unless chosen
+  const ownVariantCombinations = variantCombinations;
+  if (options.includeVariants || options.includeBooleans) {
+    for (const nestedInstance of await getNestedInstances(source)) {
+      for (const key in nestedInstance.variantProperties) {
+        const selectedValues = options.includeVariants && options.selectedVariants && options.selectedVariants[key];
+        if (nestedInstance.variantProperties.hasOwnProperty(key) && selectedValues && selectedValues.length > 0) {
+          const values = nestedInstance.variantProperties[key].filter(value => selectedValues.indexOf(value) !== -1);
+          variantCombinations = addPropertyValues(variantCombinations, key, values);
+        }
+      }
+      for (const key of nestedInstance.booleanProperties) {
+        if (options.includeBooleans && options.selectedBooleans && options.selectedBooleans.indexOf(key) !== -1) {
+          booleanCombinations = addPropertyValues(booleanCombinations, key, [true, false]);
+        }
+      }
+    }
+  }
+
+  // Get instance swap combinations for the selected components
+  let instanceSwapCombinations: Array<Record<string, SwapValue>> = [{}];
+  if (options.includeInstanceSwaps) {
+    const swapValues = await getAvailableInstanceSwapProperties(source, allowImport);
+    const selectedSwapValues: Record<string, SwapValue[]> = {};
+    for (const propName in swapValues) {
+      if (swapValues.hasOwnProperty(propName)) {
+        const selectedIds = options.selectedInstanceSwaps && options.selectedInstanceSwaps[propName];
+        selectedSwapValues[propName] = selectedIds
+          ? swapValues[propName].filter(value => isSwapValueSelected(value, selectedIds))
+          : swapValues[propName];
+      }
+    }
+    instanceSwapCombinations = getAllInstanceSwapCombinations(selectedSwapValues);
+  }
+
+  // Get text combinations for the entered sample strings
+  let textCombinations: Array<Record<string, string>> = [{}];
+  if (options.includeTexts && options.textSamples) {
+    const textProperties = getAvailableTextProperties(source);
+    const textSamples: Record<string, string[]> = {};
+    for (const propName in options.textSamples) {
+      if (options.textSamples.hasOwnProperty(propName) && textProperties.hasOwnProperty(propName)) {
+        textSamples[propName] = options.textSamples[propName];
+      }
+    }
+    textCombinations = getAllTextCombinations(textSamples);
+  }
+
+  // Vary the interaction states the variants change to as one more property
+  let interactionCombinations: Array<Record<string, string>> = [{}];
+  if (options.includeInteractions) {
+    const triggers = getInteractionTriggers(source);
+    if (triggers.length > 0) {
+      interactionCombinations = [INTERACTION_DEFAULT].concat(triggers).map(value => {
+        const interactionProps: Record<string, string> = {};
+        interactionProps[INTERACTION_PROPERTY] = value;
+        return interactionProps;
+      });
+    }
+  }
+
+  // Combine the property types with the chosen strategy
+  let combinations: CombinationProps[];
+  const strategy = options.strategy || 'full';
+  if (strategy === 'full') {
+    combinations = combineProperties(
+      variantCombinations,
+      booleanCombinations,
+      instanceSwapCombinations,
+      textCombinations,
+      interactionCombinations
+    );
+  } else {
+    const axes = getPropertyAxes(
+      source,
+      variantCombinations,
+      booleanCombinations,
+      instanceSwapCombinations,
+      textCombinations,
+      interactionCombinations
+    );
+    const rows = strategy === 'pairwise'
+      ? getPairwiseRows(axes)
+      : getOneAtATimeRows(axes);
+    combinations = rows.map(row => toCombinationProps(axes, row));
+  }
+
+  // Apply the component's exclusion rules
+  const rules = await loadRules(source.key);
+  const ruleCount = combinations.length;
+  combinations = applyRules(combinations, rules);
+  const excluded = ruleCount - combinations.length;
+
+  // Drop combinations whose variant doesn't exist in the component set
+  const failures: CombinationFailure[] = [];
+  if (options.includeVariants) {
+    const missing = splitExistingVariantCombinations(source, ownVariantCombinations).missing
+      .map(combo => formatCombination(combo));
+    combinations = combinations.filter(combination => {
+      const variantKey = formatCombination(splitNestedProperties(combination.variantProps).own);
+      if (missing.indexOf(variantKey) === -1) {
+        return true;
+      }
+      addFailure(failures, {
+        combination: variantKey,
+        reason: 'missing-variant',
+        message: 'No variant of the component set has these values'
+      });
+      return false;
+    });
+  }
+
+  // Drop interaction states that the combination's variant doesn't change to
+  if (options.includeInteractions) {
+    combinations = combinations.filter(combination => {
+      const state = combination.interactionProps[INTERACTION_PROPERTY];
+      if (!state || state === INTERACTION_DEFAULT || getInteractionVariantProps(componentInfo.component, combination)) {
+        return true;
+      }
+      const own = splitNestedProperties(combination.variantProps).own;
+      addFailure(failures, {
+        combination: formatCombination(Object.assign({}, own, combination.interactionProps)),
+        reason: 'missing-variant',
+        message: `This variant doesn't change to another variant on ${state}`
+      });
+      return false;
+    });
+  }
+
+  return { combinations, failures, excluded };
+}
+
+// Helper function to predict how many instances a run would create for the selection
+async function predictInstanceCount(options: GenerateOptions): Promise<number | null> {
+  const selection = figma.currentPage.selection;
+  const componentInfo = selection.length > 0 ? await resolveComponentInfo(selection[0]) : null;
+  if (!componentInfo) {
+    return null;
+  }
+
+  return countInstances(componentInfo, options);
+}
+
+// Helper function to count the instances a run would create for a component
+async function countInstances(
+  componentInfo: { component: ComponentNode; componentSet: ComponentSetNode | null },
+  options: GenerateOptions
+): Promise<number> {
+  const { combinations } = await getCombinations(componentInfo, options, false);
+  const modeCount = options.includeBrands && options.selectedModes ? options.selectedModes.length : 0;
+  return combinations.length * Math.max(modeCount, 1);
+}
+
+// Helper function to name the first combinations of the selected component
+// Used for the live preview of naming options
+async function previewInstanceNames(options: GenerateOptions, limit: number): Promise<string[]> {
+  const selection = figma.currentPage.selection;
+  const componentInfo = selection.length > 0 ? await resolveComponentInfo(selection[0]) : null;
+  if (!componentInfo) {
+    return [];
+  }
+
+  const { combinations } = await getCombinations(componentInfo, options, false);
+  return combinations
+    .slice(0, limit)
+    .map(combination => generateInstanceName(componentInfo.component, combination, options));
+}
+
+// Helper function to build a table as a run that reports its progress and can be cancelled from the UI
+// Returns null, after telling the user why, when no table was built
+async function runTableGeneration(
+  componentInfo: { component: ComponentNode; componentSet: ComponentSetNode | null },
+  options: GenerateOptions,
+  existingFrame: FrameNode | null
+): Promise<InstanceTableResult | null> {
+  if (activeRun) {
+    figma.notify('Instances are already being created');
+    return null;
+  }
+
+  activeRun = { current: 0, total: 0, cancelled: false, isBatch: false };
+  try {
+    return await buildInstanceTable(componentInfo, options, existingFrame);
+  } catch (error) {
+    figma.notify(error.message);
+    return null;
+  } finally {
+    activeRun = null;
+    postToUI({ type: 'generation-finished' });
+  }
+}
+
+// Helper function to create the instances of every group of a table, one group per new frame or
+// a single group without frames, as one run with progress across all groups
+// When the run is cancelled, everything created so far is removed along with the new frames
+async function createGroupInstances(
+  component: ComponentNode,
+  combinations: CombinationProps[],
+  options: GenerateOptions,
+  failures: CombinationFailure[],
+  groupFrames: FrameNode[]
+): Promise<Array<Map<string, InstanceData>>> {
+  const run = activeRun;
+  const groupCount = Math.max(groupFrames.length, 1);
+  if (run && !run.isBatch) {
+    run.current = 0;
+    run.total = combinations.length * groupCount;
+  }
+
+  const instanceMaps: Array<Map<string, InstanceData>> = [];
+  try {
+    for (let i = 0; i < groupCount; i++) {
+      instanceMaps.push(await createInstanceMap(component, combinations, options, failures, run));
+    }
+  } catch (error) {
+    for (const instanceMap of instanceMaps) {
+      instanceMap.forEach(data => data.instance.remove());
+    }
+    for (const frame of groupFrames) {
+      frame.remove();
+    }
+    throw error;
+  }
+
+  // Report the finished count before the table is laid out
+  if (run) {
+    postToUI({ type: 'generation-progress', current: run.current, total: run.total });
+  }
+  return instanceMaps;
+}
+
+// Helper function to remove what a cancelled run created while laying out a table
+// Instances may be inside a cell already, which goes with its frame
+function removeUnfinishedTable(instanceMaps: Array<Map<string, InstanceData>>, frames: FrameNode[]) {
+  for (const frame of frames) {
+    frame.remove();
+  }
+  for (const instanceMap of instanceMaps) {
+    instanceMap.forEach(data => {
+      if (!data.instance.removed) {
+        data.instance.remove();
+      }
+    });
+  }
+}
+
+// Helper function to build the instance table for a component
+// Fills the existing frame in place when given, otherwise creates a new main frame
+// Throws an error describing why when no table can be built
+async function buildInstanceTable(
+  componentInfo: { component: ComponentNode; componentSet: ComponentSetNode | null },
+  options: GenerateOptions,
+  existingFrame: FrameNode | null
+): Promise<InstanceTableResult> {
+  const { component, componentSet } = componentInfo;
+  const run = activeRun;
+
+  // Get the combinations to create, dropping those that can't exist
+  const { combinations, failures, excluded } = await getCombinations(componentInfo, options, true);
+  if (combinations.length === 0) {
+    postToUI({
+      type: 'generation-report',
+      generated: 0,
+      failures,
+      excluded,
+      accessibility: null
+    });
+    throw new Error(excluded > 0
+      ? 'Every selected combination is excluded by rules or doesn\'t exist in the component set'
+      : 'None of the selected variant combinations exist in the component set');
+  }
+
+  // Move the default combination to the front when asked to
+  const source = componentSet || component;
+  if (options.defaultFirst) {
+    const defaults = getPropertyDefaults(source);
+    const defaultIndex = combinations.findIndex(combination => isDefaultCombination(defaults, combination));
+    if (defaultIndex > 0) {
+      combinations.unshift(combinations.splice(defaultIndex, 1)[0]);
+    }
+  }
+
+  // Text properties can only be set once the fonts of the text layers are loaded
+  if (options.includeTexts && options.textSamples) {
+    await loadComponentFonts(getPropertySource(componentInfo));
+  }
+
+  // Use component set name for the main frame
+  const mainFrameName = componentSet ? componentSet.name : component.name;
+
+  // Load the label font once for all labels
+  const labelStyle = await resolveLabelStyle(source, options.labels);
+
+  const selectedModes = options.includeBrands && options.selectedModes ? options.selectedModes : [];
+  let mainFrame: FrameNode;
+  let instanceCount = 0;
+  const instanceGroups: Array<{ mode: string | null; instanceMap: Map<string, InstanceData> }> = [];
+
+  if (selectedModes.length > 0) {
+    // Apply the modes first so an existing table is left untouched if none can be found
+    const groupFrames: Array<{ frame: FrameNode; modeName: string }> = [];
+    for (const modeSelection of selectedModes) {
+      const groupFrame = createTableContainer(mainFrameName, options);
+
+      // Apply the mode to the group so every instance inside resolves with it
+      const modeName = await setVariableMode(groupFrame, modeSelection.collectionId, modeSelection.modeId);
+      if (!modeName) {
+        groupFrame.remove();
+        continue;
+      }
+      groupFrame.name = `${mainFrameName} - ${modeName}`;
+      groupFrames.push({ frame: groupFrame, modeName });
+    }
+
+    if (groupFrames.length === 0) {
+      throw new Error('None of the selected variable modes could be found. Please update the brand modes in settings.');
+    }
+
+    // Create and lay out every instance before an existing table is cleared, so a cancelled run leaves it as it was
+    const instanceMaps = await createGroupInstances(
+      component,
+      combinations,
+      options,
+      failures,
+      groupFrames.map(group => group.frame)
+    );
+    try {
+      for (let i = 0; i < groupFrames.length; i++) {
+        await populateTable(groupFrames[i].frame, component, instanceMaps[i], options, labelStyle, run);
+      }
+    } catch (error) {
+      removeUnfinishedTable(instanceMaps, groupFrames.map(group => group.frame));
+      throw error;
+    }
+
+    if (existingFrame) {
+      mainFrame = existingFrame;
+      clearInstanceTable(mainFrame);
+    } else {
+      // Create main frame that stacks one group per variable mode
+      mainFrame = figma.createFrame();
+      mainFrame.name = `${mainFrameName} - instance table`;
+      mainFrame.layoutMode = 'VERTICAL';
+      mainFrame.primaryAxisSizingMode = 'AUTO';
+      mainFrame.counterAxisSizingMode = 'AUTO';
+      mainFrame.itemSpacing = 40;
+      applyTableBackground(mainFrame, resolveGeometry(options.geometry));
+    }
+
+    groupFrames.forEach(({ frame: groupFrame, modeName }, i) => {
+      const instanceMap = instanceMaps[i];
+      mainFrame.appendChild(groupFrame);
+      instanceCount += countCreatedInstances(instanceMap);
+      instanceGroups.push({ mode: modeName, instanceMap });
+    });
+  } else {
+    const instanceMap = (await createGroupInstances(component, combinations, options, failures, []))[0];
+
+    // Create main frame with horizontal wrapping or grid layout
+    // An existing table gets the laid out content only once it is complete, so a cancelled run leaves it as it was
+    const layoutFrame = createTableContainer(`${mainFrameName} - instance table`, options);
+    try {
+      await populateTable(layoutFrame, component, instanceMap, options, labelStyle, run);
+    } catch (error) {
+      removeUnfinishedTable([instanceMap], [layoutFrame]);
+      throw error;
+    }
+
+    if (existingFrame) {
+      mainFrame = existingFrame;
+      clearInstanceTable(mainFrame);
+      for (const child of layoutFrame.children.slice()) {
+        mainFrame.appendChild(child);
+      }
+      layoutFrame.remove();
+    } else {
+      mainFrame = layoutFrame;
+      applyTableBackground(mainFrame, resolveGeometry(options.geometry));
+    }
+
+    instanceCount = countCreatedInstances(instanceMap);
+    instanceGroups.push({ mode: null, instanceMap });
+  }
+
+  await applyLabelTextStyle(labelStyle);
+
+  // Tag the table so it can be regenerated in place later
+  const tableData: InstanceTableData = {
+    componentId: source.id,
+    componentKey: source.key,
+    componentType: source.type,
+    options,
+    available: await getAvailableValues(source)
+  };
+  mainFrame.setPluginData(TABLE_DATA_KEY, JSON.stringify(tableData));
+
+  const exportData = createCombinationExport(source, instanceGroups);
+  const accessibility = summarizeAccessibility(instanceGroups, options.accessibility);
+  return { mainFrame, instanceCount, failures, excluded, accessibility, exportData };
+}
+
+// Helper function to collect the generated combinations for export
+// Properties are listed in the order they appear, with the values that were generated
+function createCombinationExport(
+  source: ComponentNode | ComponentSetNode,
+  instanceGroups: Array<{ mode: string | null; instanceMap: Map<string, InstanceData> }>
+): CombinationExport {
+  const defaults = getPropertyDefaults(source);
+  const properties: ExportProperty[] = [];
+  const combinations: ExportCombination[] = [];
+
+  const addValue = (
+    values: Record<string, string>,
+    key: string,
+    type: ExportProperty['type'],
+    value: string,
+    defaultValue: string | null
+  ): ExportProperty => {
+    const name = stripPropertyId(key);
+    let property = properties.find(p => p.name === name);
+    if (!property) {
+      property = { name, type, values: [], defaultValue };
+      properties.push(property);
+    }
+    if (property.values.indexOf(value) === -1) {
+      property.values.push(value);
+    }
+    values[name] = value;
+    return property;
+  };
+
+  for (const { mode, instanceMap } of instanceGroups) {
+    for (const instanceData of instanceMap.values()) {
+      if (instanceData.failure) {
+        continue;
+      }
+      const values: Record<string, string> = {};
+      const { variantProps, booleanProps, instanceSwapProps, textProps, interactionProps } = instanceData;
+
+      for (const key in variantProps) {
+        if (variantProps.hasOwnProperty(key)) {
+          addValue(values, key, 'variant', variantProps[key], defaults[key] || null);
+        }
+      }
+      for (const key in booleanProps) {
+        if (booleanProps.hasOwnProperty(key)) {
+          addValue(values, key, 'boolean', String(booleanProps[key]), defaults[key] || null);
+        }
+      }
+      for (const key in instanceSwapProps) {
+        if (instanceSwapProps.hasOwnProperty(key)) {
+          // The default of an instance swap is a component ID, exported by name like the values
+          const swapValue = instanceSwapProps[key];
+          const property = addValue(values, key, 'instanceSwap', swapValue.name, null);
+          if (isDefaultValue(defaults, key, swapValue)) {
+            property.defaultValue = swapValue.name;
+          }
+        }
+      }
+      for (const key in textProps) {
+        if (textProps.hasOwnProperty(key)) {
+          addValue(values, key, 'text', textProps[key], defaults.hasOwnProperty(key) ? defaults[key] : null);
+        }
+      }
+      for (const key in interactionProps) {
+        if (interactionProps.hasOwnProperty(key)) {
+          addValue(values, key, 'interaction', interactionProps[key], defaults[key] || null);
+        }
+      }
+
+      combinations.push({
+        name: instanceData.instance.name,
+        nodeId: instanceData.instance.id,
+        mode,
+        values,
+        isDefault: false
+      });
+    }
+  }
+
+  // A combination is the default one when every property with a known default has it
+  for (const combination of combinations) {
+    combination.isDefault = properties.every(property =>
+      property.defaultValue === null || combination.values[property.name] === property.defaultValue);
+  }
+
+  return {
+    component: source.name,
+    componentId: source.id,
+    properties,
+    combinations
+  };
+}
+
+// Helper function to quote a CSV field when it contains a separator, quote or line break
+function escapeCsvField(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// Helper function to format the exported combinations as CSV, one row per instance
+function formatExportCsv(exportData: CombinationExport): string {
+  const hasModes = exportData.combinations.some(combination => combination.mode !== null);
+  const header = ['Name', 'Node ID']
+    .concat(hasModes ? ['Mode'] : [])
+    .concat(exportData.properties.map(property => property.name))
+    .concat(['Default']);
+
+  const rows = exportData.combinations.map(combination => [combination.name, combination.nodeId]
+    .concat(hasModes ? [combination.mode || ''] : [])
+    .concat(exportData.properties.map(property => combination.values[property.name] || ''))
+    .concat([combination.isDefault ? 'true' : 'false']));
+
+  return [header].concat(rows).map(row => row.map(escapeCsvField).join(',')).join('\n');
+}
+
+// Helper function to escape a Markdown table cell
+function escapeMarkdownCell(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
+
+// Helper function to format the exported combinations as Markdown tables
+// A props table with the values and defaults, followed by one row per instance
+function formatExportMarkdown(exportData: CombinationExport): string {
+  const toRow = (cells: string[]) => `| ${cells.map(escapeMarkdownCell).join(' | ')} |`;
+  const toDivider = (count: number) => `|${' --- |'.repeat(count)}`;
+  const lines: string[] = [`## ${escapeMarkdownCell(exportData.component)}`, ''];
+
+  lines.push(toRow(['Property', 'Type', 'Values', 'Default']));
+  lines.push(toDivider(4));
+  for (const property of exportData.properties) {
+    lines.push(toRow([property.name, property.type, property.values.join(', '), property.defaultValue || '']));
+  }
+
+  const hasModes = exportData.combinations.some(combination => combination.mode !== null);
+  const header = ['Name']
+    .concat(hasModes ? ['Mode'] : [])
+    .concat(exportData.properties.map(property => property.name))
+    .concat(['Default']);
+  lines.push('');
+  lines.push(toRow(header));
+  lines.push(toDivider(header.length));
+  for (const combination of exportData.combinations) {
+    lines.push(toRow([combination.name]
+      .concat(hasModes ? [combination.mode || ''] : [])
+      .concat(exportData.properties.map(property => combination.values[property.name] || ''))
+      .concat([combination.isDefault ? 'Yes' : ''])));
+  }
+
+  return lines.join('\n');
+}
+
+// Helper function to report the outcome of a generation to the UI and the user
+function reportGeneration(table: InstanceTableResult, verb: string) {
+  const { instanceCount, failures, excluded, accessibility } = table;
+
+  // Report combinations that were not generated, and the accessibility checks
+  postToUI({
+    type: 'generation-report',
+    generated: instanceCount,
+    failures,
+    excluded,
+    accessibility
+  });
+
+  // Send the combinations for export as text
+  postToUI({
+    type: 'combination-export',
+    fileName: table.exportData.component,
+    json: JSON.stringify(table.exportData, null, 2),
+    csv: formatExportCsv(table.exportData),
+    markdown: formatExportMarkdown(table.exportData)
+  });
+
+  if (failures.length > 0) {
+    figma.notify(`${verb} instance table with ${instanceCount} instances (${failures.length} combinations failed)`);
+  } else {
+    figma.notify(`${verb} instance table with ${instanceCount} instances`);
+  }
+}
+
+// Helper function to remove the generated contents of a table, keeping the outer frame
+function clearInstanceTable(mainFrame: FrameNode) {
+  for (const child of mainFrame.children.slice()) {
+    child.remove();
+  }
+}
+
+// Helper function to find the generated instance table a node belongs to
+function findInstanceTable(node: BaseNode): FrameNode | null {
+  let current: BaseNode | null = node;
+  while (current && current.type !== 'PAGE' && current.type !== 'DOCUMENT') {
+    if (current.type === 'FRAME' && current.getPluginData(TABLE_DATA_KEY)) {
+      return current;
+    }
+    current = current.parent;
+  }
+  return null;
+}
+
+// Helper function to find the source component of a table, by ID first and by key if it has moved files
+async function findTableSource(tableData: InstanceTableData): Promise<ComponentNode | ComponentSetNode | null> {
+  const source = await figma.getNodeByIdAsync(tableData.componentId);
+  if (source && (source.type === 'COMPONENT' || source.type === 'COMPONENT_SET')) {
+    return source;
+  }
+  return findComponentByKey({ type: tableData.componentType, key: tableData.componentKey }, true);
+}
+
+// Helper function to collect the property values a component offers, to store with its table
+async function getAvailableValues(source: ComponentNode | ComponentSetNode): Promise<AvailableValues> {
+  const swapValues = await getAvailableInstanceSwapProperties(source, true);
+  const instanceSwaps: Record<string, string[]> = {};
+  for (const propName in swapValues) {
+    if (swapValues.hasOwnProperty(propName)) {
+      instanceSwaps[propName] = swapValues[propName].map(value => value.id);
+    }
+  }
+  return {
+    variants: getAvailableVariantProperties(source),
+    booleans: getAvailableBooleanProperties(source),
+    instanceSwaps
+  };
+}
+
+// Helper function to check whether a selection holds every value that was available
+function selectsEveryValue(selected: string[] | undefined, available: string[]): boolean {
+  return !selected || available.every(value => selected.indexOf(value) !== -1);
+}
+
+// Helper function to add the values a component gained since its table was generated to the table's options
+// Properties whose every value was selected get the new values too, and new boolean properties are selected,
+// while properties the user narrowed down keep their selection
+async function addNewValues(
+  options: GenerateOptions,
+  available: AvailableValues,
+  source: ComponentNode | ComponentSetNode
+): Promise<GenerateOptions> {
+  const current = await getAvailableValues(source);
+  const updated: GenerateOptions = Object.assign({}, options);
+
+  if (options.selectedVariants) {
+    updated.selectedVariants = Object.assign({}, options.selectedVariants);
+    for (const propName in current.variants) {
+      if (current.variants.hasOwnProperty(propName) && updated.selectedVariants.hasOwnProperty(propName) &&
+        available.variants.hasOwnProperty(propName) &&
+        selectsEveryValue(updated.selectedVariants[propName], available.variants[propName])) {
+        updated.selectedVariants[propName] = current.variants[propName];
+      }
+    }
+  }
+
+  if (options.selectedBooleans && options.selectedBooleans.length > 0) {
+    const newBooleans = current.booleans.filter(propName =>
+      available.booleans.indexOf(propName) === -1 && options.selectedBooleans.indexOf(propName) === -1);
+    updated.selectedBooleans = options.selectedBooleans.concat(newBooleans);
+  }
+
+  if (options.selectedInstanceSwaps) {
+    updated.selectedInstanceSwaps = Object.assign({}, options.selectedInstanceSwaps);
+    for (const propName in current.instanceSwaps) {
+      if (current.instanceSwaps.hasOwnProperty(propName) && updated.selectedInstanceSwaps.hasOwnProperty(propName) &&
+        available.instanceSwaps.hasOwnProperty(propName) &&
+        selectsEveryValue(updated.selectedInstanceSwaps[propName], available.instanceSwaps[propName])) {
+        updated.selectedInstanceSwaps[propName] = current.instanceSwaps[propName];
+      }
+    }
+  }
+
+  return updated;
+}
+
+// Rebuild the selected instance table in place with the options it was generated with
+// The outer frame keeps its position and any manual changes, while its contents
+// are regenerated so new combinations are added and obsolete ones removed
+async function regenerateInstanceTable(confirmed: boolean) {
+  const selection = figma.currentPage.selection;
+  const table = selection.length > 0 ? findInstanceTable(selection[0]) : null;
+
+  if (!table) {
+    figma.notify('Please select an instance table created by this plugin');
+    return;
+  }
+
+  const tableData: InstanceTableData = JSON.parse(table.getPluginData(TABLE_DATA_KEY));
+  const source = await findTableSource(tableData);
+  if (!source) {
+    figma.notify('The source component of this instance table could not be found');
+    return;
+  }
+
+  const componentInfo = getComponentFromSelection(source);
+  if (!componentInfo) {
+    figma.notify('The source component set of this instance table has no component variants');
+    return;
+  }
+
+  // Values added to the component since then are included where every value was selected
+  const options = tableData.available
+    ? await addNewValues(tableData.options, tableData.available, source)
+    : tableData.options;
+
+  // The threshold comes from the current settings, not the ones the table was created with
+  const settings = await loadSettings();
+  const threshold = getConfirmThreshold(settings || options);
+  if (!confirmed && threshold > 0) {
+    const count = await countInstances(componentInfo, options);
+    if (count > threshold) {
+      postToUI({ type: 'confirm-generation', count });
+      return;
+    }
+  }
+
+  const result = await runTableGeneration(componentInfo, options, table);
+  if (!result) {
+    return;
+  }
+
+  figma.currentPage.selection = [table];
+  reportGeneration(result, 'Regenerated');
+}
+
+// Helper function to turn an instance name into a file path
+// Slashes in names become folders, like in Figma's own exports
+function toFilePath(name: string): string {
+  return name
+    .split('/')
+    .map(segment => segment.replace(/[\\:*?"<>|]/g, '-').trim())
+    .filter(segment => segment !== '')
+    .join('/') || 'Instance';
+}
+
+// Export every cell of an instance table as images and send them to the UI to be zipped
+// PNGs are exported once per scale; SVGs are scale independent and exported once
+async function exportTableImages(table: FrameNode, settings: ImageExportSettings) {
+  const tableData: InstanceTableData = JSON.parse(table.getPluginData(TABLE_DATA_KEY));
+  const source = await findTableSource(tableData);
+  if (!source) {
+    figma.notify('The source component of this instance table could not be found');
+    return;
+  }
+
+  const cells = table.findAllWithCriteria({ types: ['FRAME'], pluginData: { keys: [CELL_DATA_KEY] } });
+  if (cells.length === 0 || settings.formats.length === 0) {
+    figma.notify('There are no images to export');
+    return;
+  }
+
+  const exports: Array<{ suffix: string; settings: ExportSettings }> = [];
+  for (const format of settings.formats) {
+    if (format === 'SVG') {
+      exports.push({ suffix: '.svg', settings: { format: 'SVG' } });
+    } else {
+      for (const scale of settings.scales.length > 0 ? settings.scales : [1]) {
+        const scaleSuffix = scale === 1 ? '' : `@${scale}x`;
+        exports.push({ suffix: `${scaleSuffix}.png`, settings: { format: 'PNG', constraint: { type: 'SCALE', value: scale } } });
+      }
+    }
+  }
+
+  // Cells of brand groups go into a folder per group, since their names are the same in every group
+  const hasGroups = !!(tableData.options.includeBrands && tableData.options.selectedModes && tableData.options.selectedModes.length > 0);
+  const usedPaths = new Map<string, number>();
+  const files: Array<{ path: string; bytes: Uint8Array }> = [];
+
+  for (let i = 0; i < cells.length; i++) {
+    const cell = cells[i];
+    postToUI({ type: 'image-export-progress', current: i + 1, total: cells.length });
+
+    // Cells of tables created before interaction states were a property don't store them
+    const combination: CombinationProps = Object.assign({ interactionProps: {} }, JSON.parse(cell.getPluginData(CELL_DATA_KEY)));
+    let path = toFilePath(generateInstanceName(source, combination, tableData.options));
+    if (hasGroups) {
+      let group: BaseNode = cell;
+      while (group.parent && group.parent !== table) {
+        group = group.parent;
+      }
+      path = `${toFilePath(group.name)}/${path}`;
+    }
+
+    // Names repeat with simple naming, so later cells are numbered
+    const count = (usedPaths.get(path) || 0) + 1;
+    usedPaths.set(path, count);
+    if (count > 1) {
+      path = `${path} ${count}`;
+    }
+
+    for (const imageExport of exports) {
+      try {
+        files.push({ path: path + imageExport.suffix, bytes: await cell.exportAsync(imageExport.settings) });
+      } catch (error) {
+        console.error(`Error exporting ${path}:`, error);
+      }
+    }
+  }
+
+  postToUI({
+    type: 'image-export',
+    fileName: `${source.name} images`,
+    files
+  });
+  figma.notify(`Exported ${files.length} images`);
+}
+
+// Export the images of the selected instance table
+async function exportSelectedTableImages(settings: ImageExportSettings) {
+  const selection = figma.currentPage.selection;
+  const table = selection.length > 0 ? findInstanceTable(selection[0]) : null;
+
+  if (!table) {
+    figma.notify('Please select an instance table created by this plugin');
+    return;
+  }
+
+  await exportTableImages(table, settings);
+}
+
+// A difference between two compared variants, either in a property or in a resolved style of a layer
+interface VariantDifference {
+  layer: string; // Layer path within the variant, empty for properties and the variant itself
+  property: string;
+  left: string;
+  right: string;
+}
+
+interface VariantComparison {
+  left: string; // Formatted variant combination
+  right: string;
+  properties: VariantDifference[];
+  styles: VariantDifference[];
+}
+
+const COMPARISON_GAP = 40;
+
+// Helper function to format a color as a hex string, with its opacity when not opaque
+function formatHexColor(color: RGB, opacity: number): string {
+  const hex = [color.r, color.g, color.b]
+    .map(channel => Math.round(channel * 255).toString(16).padStart(2, '0'))
+    .join('')
+    .toUpperCase();
+  return opacity < 1 ? `#${hex} ${Math.round(opacity * 100)}%` : `#${hex}`;
+}
+
+// Helper function to get the name of a style, or null when the node uses none
+async function getStyleName(styleId: string | typeof figma.mixed): Promise<string | null> {
+  if (styleId === figma.mixed) {
+    return 'Mixed';
+  }
+  if (!styleId) {
+    return null;
+  }
+  const style = await figma.getStyleByIdAsync(styleId);
+  return style ? style.name : null;
+}
+
+// Helper function to describe fills or strokes, preferring the name of their style
+async function describePaints(paints: ReadonlyArray<Paint> | typeof figma.mixed, styleId: string | typeof figma.mixed): Promise<string> {
+  if (paints === figma.mixed) {
+    return 'Mixed';
+  }
+  const visiblePaints = paints.filter(paint => paint.visible !== false);
+  if (visiblePaints.length === 0) {
+    return 'None';
+  }
+  const description = visiblePaints
+    .map(paint => paint.type === 'SOLID' ? formatHexColor(paint.color, paint.opacity === undefined ? 1 : paint.opacity) : toTitleCase(paint.type.replace(/_/g, ' ')))
+    .join(', ');
+  const styleName = await getStyleName(styleId);
+  return styleName ? `${styleName} (${description})` : description;
+}
+
+// Helper function to describe a line height or letter spacing value
+function describeTextMeasure(value: LineHeight | LetterSpacing | typeof figma.mixed): string {
+  if (value === figma.mixed) {
+    return 'Mixed';
+  }
+  if (value.unit === 'AUTO') {
+    return 'Auto';
+  }
+  return value.unit === 'PERCENT' ? `${Math.round(value.value * 100) / 100}%` : `${Math.round(value.value * 100) / 100}px`;
+}
+
+// Helper function to describe the variables bound to the fields of a node
+async function describeBoundVariables(node: SceneNode, styles: Record<string, string>) {
+  const boundVariables = ('boundVariables' in node && node.boundVariables || {}) as Record<string, VariableAlias | VariableAlias[]>;
+  for (const field in boundVariables) {
+    if (boundVariables.hasOwnProperty(field)) {
+      const value = boundVariables[field];
+      const aliases = Array.isArray(value) ? value : [value];
+      const names: string[] = [];
+      for (const alias of aliases) {
+        if (alias && alias.id) {
+          const variable = await figma.variables.getVariableByIdAsync(alias.id);
+          names.push(variable ? variable.name : alias.id);
+        }
+      }
+      if (names.length > 0) {
+        styles[`Variable: ${field}`] = names.join(', ');
+      }
+    }
+  }
+}
+
+// Helper function to describe the resolved styles of a layer, keyed by style property
+async function describeLayerStyles(node: SceneNode): Promise<Record<string, string>> {
+  const styles: Record<string, string> = {
+    Visible: node.visible ? 'Yes' : 'No',
+    Dimensions: `${Math.round(node.width * 100) / 100} × ${Math.round(node.height * 100) / 100}`
+  };
+
+  if ('fills' in node) {
+    styles.Fills = await describePaints(node.fills, node.fillStyleId);
+  }
+  if ('strokes' in node && node.strokes.length > 0) {
+    const weight = node.strokeWeight === figma.mixed ? 'Mixed' : `${node.strokeWeight}px`;
+    styles.Strokes = `${await describePaints(node.strokes, node.strokeStyleId)}, ${weight}`;
+  }
+  if (node.type === 'TEXT') {
+    const textStyleName = await getStyleName(node.textStyleId);
+    if (textStyleName) {
+      styles['Text style'] = textStyleName;
+    }
+    styles.Font = node.fontName === figma.mixed ? 'Mixed' : `${node.fontName.family} ${node.fontName.style}`;
+    styles['Font size'] = node.fontSize === figma.mixed ? 'Mixed' : `${node.fontSize}px`;
+    styles['Line height'] = describeTextMeasure(node.lineHeight);
+    styles['Letter spacing'] = describeTextMeasure(node.letterSpacing);
+  }
+
+  await describeBoundVariables(node, styles);
+  return styles;
+}
+
+// Helper function to collect the layers of a node by path
+// Layers with the same name under the same parent are told apart by their position
+function collectLayers(node: SceneNode, path: string, layers: Map<string, SceneNode>) {
+  layers.set(path, node);
+  if (!('children' in node)) {
+    return;
+  }
+  const occurrences: Record<string, number> = {};
+  for (const child of node.children) {
+    occurrences[child.name] = (occurrences[child.name] || 0) + 1;
+    const name = occurrences[child.name] > 1 ? `${child.name} (${occurrences[child.name]})` : child.name;
+    collectLayers(child, path ? `${path} / ${name}` : name, layers);
+  }
+}
+
+// Helper function to compare the resolved styles of two instances, layer by layer
+async function compareInstanceStyles(left: InstanceNode, right: InstanceNode): Promise<VariantDifference[]> {
+  const leftLayers = new Map<string, SceneNode>();
+  const rightLayers = new Map<string, SceneNode>();
+  collectLayers(left, '', leftLayers);
+  collectLayers(right, '', rightLayers);
+
+  const differences: VariantDifference[] = [];
+  const paths = Array.from(leftLayers.keys());
+  rightLayers.forEach((_, path) => {
+    if (!leftLayers.has(path)) {
+      paths.push(path);
+    }
+  });
+
+  for (const path of paths) {
+    const leftNode = leftLayers.get(path);
+    const rightNode = rightLayers.get(path);
+    if (!leftNode || !rightNode) {
+      differences.push({ layer: path, property: 'Layer', left: leftNode ? 'Present' : 'Missing', right: rightNode ? 'Present' : 'Missing' });
+      continue;
+    }
+
+    const leftStyles = await describeLayerStyles(leftNode);
+    const rightStyles = await describeLayerStyles(rightNode);
+    const properties = Object.keys(leftStyles);
+    for (const property of Object.keys(rightStyles)) {
+      if (properties.indexOf(property) === -1) {
+        properties.push(property);
+      }
+    }
+    for (const property of properties) {
+      const leftValue = leftStyles.hasOwnProperty(property) ? leftStyles[property] : 'None';
+      const rightValue = rightStyles.hasOwnProperty(property) ? rightStyles[property] : 'None';
+      if (leftValue !== rightValue) {
+        differences.push({ layer: path, property, left: leftValue, right: rightValue });
+      }
+    }
+  }
+
+  return differences;
+}
+
+// Helper function to format a difference as a line of the comparison summary
+function formatDifference(difference: VariantDifference): string {
+  const name = difference.layer ? `${difference.layer} › ${difference.property}` : difference.property;
+  return `${name}: ${difference.left} → ${difference.right}`;
+}
+
+// Helper function to create a cell with a heading and an instance for the comparison frame
+function createComparisonCell(heading: string, instance: InstanceNode, labelStyle: LabelStyle): FrameNode {
+  const cell = figma.createFrame();
+  cell.name = heading;
+  cell.layoutMode = 'VERTICAL';
+  cell.primaryAxisSizingMode = 'AUTO';
+  cell.counterAxisSizingMode = 'AUTO';
+  cell.itemSpacing = 12;
+  cell.fills = [];
+  cell.appendChild(createLabel(heading, labelStyle));
+  cell.appendChild(instance);
+  return cell;
+}
+
+// Main function to compare two variant combinations of the selected component side by side
+// Creates a comparison frame with both instances and a summary of their differences
+async function compareVariants(leftProps: Record<string, string>, rightProps: Record<string, string>, labels: LabelOptions | undefined) {
+  const selection = figma.currentPage.selection;
+  const componentInfo = selection.length > 0 ? await resolveComponentInfo(selection[0]) : null;
+  if (!componentInfo) {
+    figma.notify('Please select a component, component set or instance on the canvas first');
+    return;
+  }
+
+  const { component } = componentInfo;
+  const source = getPropertySource(componentInfo);
+  const left = formatCombination(leftProps);
+  const right = formatCombination(rightProps);
+  if (left === right) {
+    figma.notify('Please choose two different variants to compare');
+    return;
+  }
+
+  // Everything created for the comparison is removed again if any step fails
+  const leftInstance = component.createInstance();
+  const rightInstance = component.createInstance();
+  let mainFrame: FrameNode | null = null;
+  let comparison: VariantComparison;
+  try {
+    leftInstance.setProperties(leftProps);
+    rightInstance.setProperties(rightProps);
+
+    const properties: VariantDifference[] = [];
+    for (const property in leftProps) {
+      if (leftProps.hasOwnProperty(property) && leftProps[property] !== rightProps[property]) {
+        properties.push({ layer: '', property, left: leftProps[property], right: rightProps[property] });
+      }
+    }
+    comparison = {
+      left,
+      right,
+      properties,
+      styles: await compareInstanceStyles(leftInstance, rightInstance)
+    };
+
+    const labelStyle = await resolveLabelStyle(source, labels);
+    mainFrame = figma.createFrame();
+    mainFrame.name = `${source.name} - Comparison`;
+    mainFrame.layoutMode = 'VERTICAL';
+    mainFrame.primaryAxisSizingMode = 'AUTO';
+    mainFrame.counterAxisSizingMode = 'AUTO';
+    mainFrame.itemSpacing = COMPARISON_GAP;
+    mainFrame.fills = [];
+
+    const row = figma.createFrame();
+    row.name = 'Variants';
+    row.layoutMode = 'HORIZONTAL';
+    row.primaryAxisSizingMode = 'AUTO';
+    row.counterAxisSizingMode = 'AUTO';
+    row.itemSpacing = COMPARISON_GAP;
+    row.fills = [];
+    mainFrame.appendChild(row);
+    leftInstance.name = left;
+    rightInstance.name = right;
+    row.appendChild(createComparisonCell(`A: ${left}`, leftInstance, labelStyle));
+    row.appendChild(createComparisonCell(`B: ${right}`, rightInstance, labelStyle));
+
+    const differences = comparison.properties.concat(comparison.styles);
+    const summary = differences.length > 0
+      ? differences.map(formatDifference).join('\n')
+      : 'No differences';
+    const summaryLabel = createLabel(summary, labelStyle);
+    summaryLabel.name = 'Differences';
+    mainFrame.appendChild(summaryLabel);
+    await applyLabelTextStyle(labelStyle);
+
+    await placeTable(mainFrame, selection[0], 'beside');
+  } catch (error) {
+    for (const node of [mainFrame, leftInstance, rightInstance]) {
+      if (node && !node.removed) {
+        node.remove();
+      }
+    }
+    figma.notify(`Could not compare the variants: ${error instanceof Error ? error.message : String(error)}`);
+    return;
+  }
 
-  // Select the main frame
   figma.currentPage.selection = [mainFrame];
   figma.viewport.scrollAndZoomIntoView([mainFrame]);
 
-  figma.notify(`Created instance table with ${variantCombinations.length * booleanCombinations.length} instances`);
+  postToUI({ type: 'variant-comparison', comparison });
+  figma.notify(`Found ${comparison.styles.length} style difference${comparison.styles.length === 1 ? '' : 's'}`);
+}
+
+// Helper function to collect the components and component sets in the given nodes
+// Variants are represented by their component set, and containers are searched
+function collectComponents(nodes: readonly SceneNode[]): Array<ComponentNode | ComponentSetNode> {
+  const components: Array<ComponentNode | ComponentSetNode> = [];
+
+  function add(node: ComponentNode | ComponentSetNode) {
+    const target = node.type === 'COMPONENT' && node.parent && node.parent.type === 'COMPONENT_SET'
+      ? node.parent as ComponentSetNode
+      : node;
+    if (!components.some(c => c.id === target.id)) {
+      components.push(target);
+    }
+  }
+
+  for (const node of nodes) {
+    if (node.type === 'COMPONENT' || node.type === 'COMPONENT_SET') {
+      add(node);
+    } else if ('findAllWithCriteria' in node) {
+      for (const found of node.findAllWithCriteria({ types: ['COMPONENT_SET', 'COMPONENT'] })) {
+        add(found);
+      }
+    }
+  }
+
+  return components;
+}
+
+// Helper function to send the summary of a batch run to the UI
+function postBatchReport(generated: number, instances: number, failures: BatchFailure[]) {
+  postToUI({
+    type: 'batch-report',
+    generated,
+    instances,
+    failures
+  });
+}
+
+// Generate a table for every component and component set in the selection or on a page
+// Tables are stacked to the right of the page content so they never overlap it,
+// and failures are collected into a summary instead of stopping the batch
+async function generateBatch(options: GenerateOptions, scope: string, confirmed: boolean) {
+  if (activeRun) {
+    postBatchReport(0, 0, []);
+    figma.notify('Instances are already being created');
+    return;
+  }
+
+  let page: PageNode;
+  let components: Array<ComponentNode | ComponentSetNode>;
+
+  if (scope === 'selection') {
+    page = figma.currentPage;
+    components = collectComponents(page.selection);
+  } else {
+    const node = await figma.getNodeByIdAsync(scope);
+    if (!node || node.type !== 'PAGE') {
+      postBatchReport(0, 0, []);
+      figma.notify('The chosen page could not be found');
+      return;
+    }
+    page = node;
+    await page.loadAsync();
+    components = collectComponents(page.children);
+  }
+
+  if (components.length === 0) {
+    postBatchReport(0, 0, []);
+    figma.notify(scope === 'selection'
+      ? 'No components or component sets found in the selection'
+      : `No components or component sets found on "${page.name}"`);
+    return;
+  }
+
+  // Resolve and count every component first, so the run can be confirmed on its total
+  // and its progress covers the whole batch
+  const jobs: Array<{
+    source: ComponentNode | ComponentSetNode;
+    componentInfo: { component: ComponentNode; componentSet: ComponentSetNode | null } | null;
+    options: GenerateOptions;
+    count: number;
+  }> = [];
+  let total = 0;
+  for (const source of components) {
+    // Without a per-component choice, booleans go on grid columns like in the UI
+    const componentOptions: GenerateOptions = Object.assign({}, options);
+    if (options.layout === 'grid' && !options.columnProperties) {
+      componentOptions.columnProperties = getAvailableBooleanProperties(source);
+    }
+    const componentInfo = getComponentFromSelection(source);
+    const count = componentInfo ? await countInstances(componentInfo, componentOptions) : 0;
+    jobs.push({ source, componentInfo, options: componentOptions, count });
+    total += count;
+  }
+
+  const threshold = getConfirmThreshold(options);
+  if (!confirmed && threshold > 0 && total > threshold) {
+    postToUI({ type: 'confirm-generation', count: total });
+    return;
+  }
+
+  // Start to the right of the existing page content
+  let startX = 0;
+  let nextY = 0;
+  if (page.children.length > 0) {
+    startX = Math.max(...page.children.map(child => child.x + child.width)) + 200;
+    nextY = Math.min(...page.children.map(child => child.y));
+  }
+
+  const tables: FrameNode[] = [];
+  const failures: BatchFailure[] = [];
+  let instanceCount = 0;
+
+  // The whole batch is one run, so it shows progress and can be cancelled like a single table
+  const run: GenerationRun = { current: 0, total, cancelled: false, isBatch: true };
+  activeRun = run;
+  let counted = 0;
+  try {
+    for (let i = 0; i < jobs.length && !run.cancelled; i++) {
+      const { source, componentInfo, options: componentOptions, count } = jobs[i];
+      postToUI({
+        type: 'batch-progress',
+        current: i + 1,
+        total: jobs.length,
+        name: source.name
+      });
+
+      if (!componentInfo) {
+        failures.push({ name: source.name, reason: 'Component set has no component variants' });
+        continue;
+      }
+
+      try {
+        const table = await buildInstanceTable(componentInfo, componentOptions, null);
+        page.appendChild(table.mainFrame);
+        table.mainFrame.x = startX;
+        table.mainFrame.y = nextY;
+        nextY += table.mainFrame.height + 200;
+        tables.push(table.mainFrame);
+        instanceCount += table.instanceCount;
+      } catch (error) {
+        if (!run.cancelled) {
+          failures.push({ name: source.name, reason: error.message });
+        }
+      }
+
+      // Keep the progress in step with the counted total, whatever the component created
+      counted += count;
+      run.current = counted;
+
+      // Yield so the UI can show progress between components
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+  } finally {
+    activeRun = null;
+    postToUI({ type: 'generation-finished' });
+  }
+
+  // A cancelled batch removes the tables it already created
+  if (run.cancelled) {
+    for (const table of tables) {
+      table.remove();
+    }
+    postBatchReport(0, 0, []);
+    figma.notify('Generation cancelled');
+    return;
+  }
+
+  postBatchReport(tables.length, instanceCount, failures);
+
+  if (tables.length > 0 && page === figma.currentPage) {
+    figma.currentPage.selection = tables;
+    figma.viewport.scrollAndZoomIntoView(tables);
+  }
+
+  if (failures.length > 0) {
+    figma.notify(`Created ${tables.length} instance tables (${failures.length} failed)`);
+  } else {
+    figma.notify(`Created ${tables.length} instance tables with ${instanceCount} instances`);
+  }
+}
+
+// The findings of the coverage audit for one component or component set
+interface ComponentAudit {
+  name: string;
+  id: string;
+  variantCount: number;
+  missingCombinations: number; // Combinations of variant values that have no variant
+  uncombinedValues: string[]; // Pairs of variant values no variant combines, e.g. "Size=Large + State=Disabled"
+  duplicateVariants: string[]; // Variant names used by more than one variant
+  ineffectiveBooleans: string[]; // Names of boolean properties that don't change any variant
+  tables: string[]; // Names of the instance tables generated from the component
+}
+
+// Helper function to find the pairs of variant values that no variant of a component set combines
+function findUncombinedValues(componentSet: ComponentSetNode): string[] {
+  const properties = getAvailableVariantProperties(componentSet);
+  const names = Object.keys(properties);
+  const variants: Array<{ [property: string]: string }> = [];
+  for (const child of componentSet.children) {
+    if (child.type === 'COMPONENT' && child.variantProperties) {
+      variants.push(child.variantProperties);
+    }
+  }
+
+  const uncombined: string[] = [];
+  for (let i = 0; i < names.length; i++) {
+    for (let j = i + 1; j < names.length; j++) {
+      for (const first of properties[names[i]]) {
+        for (const second of properties[names[j]]) {
+          if (!variants.some(variant => variant[names[i]] === first && variant[names[j]] === second)) {
+            uncombined.push(`${names[i]}=${first} + ${names[j]}=${second}`);
+          }
+        }
+      }
+    }
+  }
+  return uncombined;
+}
+
+// Helper function to find the variant names used by more than one variant of a component set
+function findDuplicateVariants(componentSet: ComponentSetNode): string[] {
+  const counts: Record<string, number> = {};
+  for (const child of componentSet.children) {
+    if (child.type === 'COMPONENT' && child.variantProperties) {
+      const name = formatCombination(child.variantProperties);
+      counts[name] = (counts[name] || 0) + 1;
+    }
+  }
+  return Object.keys(counts).filter(name => counts[name] > 1);
+}
+
+// Helper function to find the boolean properties that don't change any variant
+// Compares a temporary instance of each variant with the property on to one with it off,
+// stopping at the first variant the property changes
+async function findIneffectiveBooleans(source: ComponentNode | ComponentSetNode): Promise<string[]> {
+  const variants = source.type === 'COMPONENT_SET'
+    ? source.children.filter(child => child.type === 'COMPONENT') as ComponentNode[]
+    : [source];
+  const ineffective: string[] = [];
+  for (const property of getAvailableBooleanProperties(source)) {
+    let hasEffect = false;
+    for (const variant of variants) {
+      const onInstance = variant.createInstance();
+      const offInstance = variant.createInstance();
+      try {
+        onInstance.setProperties({ [property]: true });
+        offInstance.setProperties({ [property]: false });
+        const differences = await compareInstanceStyles(onInstance, offInstance);
+        hasEffect = differences.length > 0;
+      } catch (error) {
+        console.warn(`Could not check boolean property ${property} of ${variant.name}:`, error);
+      } finally {
+        onInstance.remove();
+        offInstance.remove();
+      }
+      if (hasEffect) {
+        break;
+      }
+    }
+    if (!hasEffect) {
+      ineffective.push(stripPropertyId(property));
+    }
+  }
+  return ineffective;
+}
+
+// Helper function to find the instance tables in the document, keyed by the ID of their source
+async function findInstanceTables(): Promise<Map<string, string[]>> {
+  const tables = new Map<string, string[]>();
+  for (const page of figma.root.children) {
+    await page.loadAsync();
+    for (const frame of page.findAllWithCriteria({ types: ['FRAME'], pluginData: { keys: [TABLE_DATA_KEY] } })) {
+      try {
+        const tableData: InstanceTableData = JSON.parse(frame.getPluginData(TABLE_DATA_KEY));
+        const names = tables.get(tableData.componentId) || [];
+        names.push(`${page.name} / ${frame.name}`);
+        tables.set(tableData.componentId, names);
+      } catch (error) {
+        console.warn(`Invalid table data on ${frame.name}:`, error);
+      }
+    }
+  }
+  return tables;
+}
+
+// Helper function to audit the coverage of a component or component set
+async function auditComponent(source: ComponentNode | ComponentSetNode, tables: Map<string, string[]>): Promise<ComponentAudit> {
+  const componentSet = source.type === 'COMPONENT_SET' ? source : null;
+  const componentInfo = getComponentFromSelection(source);
+  const { missing } = splitExistingVariantCombinations(source, getAllVariantCombinations(source));
+  return {
+    name: source.name,
+    id: source.id,
+    variantCount: componentSet ? componentSet.children.filter(child => child.type === 'COMPONENT').length : 1,
+    missingCombinations: missing.length,
+    uncombinedValues: componentSet ? findUncombinedValues(componentSet) : [],
+    duplicateVariants: componentSet ? findDuplicateVariants(componentSet) : [],
+    ineffectiveBooleans: componentInfo ? await findIneffectiveBooleans(source) : [],
+    tables: tables.get(source.id) || []
+  };
+}
+
+// Helper function to check whether an audit found gaps to fix before publishing
+function hasAuditGaps(audit: ComponentAudit): boolean {
+  return audit.missingCombinations > 0 || audit.duplicateVariants.length > 0 ||
+    audit.ineffectiveBooleans.length > 0 || audit.tables.length === 0;
+}
+
+// Helper function to format an audit as CSV, one row per component
+function formatAuditCsv(audits: ComponentAudit[]): string {
+  const header = ['Name', 'Node ID', 'Variants', 'Missing Combinations', 'Uncombined Values', 'Duplicate Variants', 'Ineffective Booleans', 'Tables'];
+  const rows = audits.map(audit => [
+    audit.name,
+    audit.id,
+    String(audit.variantCount),
+    String(audit.missingCombinations),
+    audit.uncombinedValues.join('; '),
+    audit.duplicateVariants.join('; '),
+    audit.ineffectiveBooleans.join('; '),
+    audit.tables.join('; ')
+  ]);
+  return [header].concat(rows).map(row => row.map(escapeCsvField).join(',')).join('\n');
+}
+
+// Helper function to format an audit as a Markdown table, one row per component
+function formatAuditMarkdown(title: string, audits: ComponentAudit[]): string {
+  const toRow = (cells: string[]) => `| ${cells.map(escapeMarkdownCell).join(' | ')} |`;
+  const lines: string[] = [`## ${escapeMarkdownCell(title)}`, ''];
+  lines.push(toRow(['Component', 'Variants', 'Missing Combinations', 'Uncombined Values', 'Duplicate Variants', 'Ineffective Booleans', 'Table']));
+  lines.push(`|${' --- |'.repeat(7)}`);
+  for (const audit of audits) {
+    lines.push(toRow([
+      audit.name,
+      String(audit.variantCount),
+      String(audit.missingCombinations),
+      audit.uncombinedValues.join(', '),
+      audit.duplicateVariants.join(', '),
+      audit.ineffectiveBooleans.join(', '),
+      audit.tables.length > 0 ? audit.tables.join(', ') : 'None'
+    ]));
+  }
+  return lines.join('\n');
+}
+
+// Audit the coverage of every component and component set in the selection or on a page
+// Nothing is changed, except for the temporary instances that check boolean properties
+async function auditComponents(scope: string) {
+  let title: string;
+  let components: Array<ComponentNode | ComponentSetNode>;
+
+  if (scope === 'selection') {
+    title = `${figma.currentPage.name} selection audit`;
+    components = collectComponents(figma.currentPage.selection);
+  } else {
+    const page = await figma.getNodeByIdAsync(scope);
+    if (!page || page.type !== 'PAGE') {
+      postToUI({ type: 'audit-report', audits: [], fileName: '', json: '', csv: '', markdown: '' });
+      figma.notify('The chosen page could not be found');
+      return;
+    }
+    await page.loadAsync();
+    title = `${page.name} audit`;
+    components = collectComponents(page.children);
+  }
+
+  const tables = await findInstanceTables();
+  const audits: ComponentAudit[] = [];
+  for (let i = 0; i < components.length; i++) {
+    postToUI({
+      type: 'batch-progress',
+      current: i + 1,
+      total: components.length,
+      name: components[i].name
+    });
+    audits.push(await auditComponent(components[i], tables));
+
+    // Yield so the UI can show progress between components
+    await new Promise(resolve => setTimeout(resolve, 0));
+  }
+
+  postToUI({
+    type: 'audit-report',
+    audits,
+    fileName: title,
+    json: JSON.stringify(audits, null, 2),
+    csv: formatAuditCsv(audits),
+    markdown: formatAuditMarkdown(title, audits)
+  });
+
+  if (audits.length === 0) {
+    figma.notify(scope === 'selection'
+      ? 'No components or component sets found in the selection'
+      : 'No components or component sets found on the page');
+  } else {
+    const gaps = audits.filter(hasAuditGaps).length;
+    figma.notify(`Audited ${audits.length} components (${gaps} with gaps)`);
+  }
+}
+
+// Helper function to list the pages of the document for the batch scope
+function getPages(): Array<{ id: string; name: string }> {
+  return figma.root.children.map(page => ({ id: page.id, name: page.name }));
+}
+
+// Helper function to tell the UI whether the selection is inside a generated instance table
+function postSelectedTable() {
+  const selection = figma.currentPage.selection;
+  const table = selection.length > 0 ? findInstanceTable(selection[0]) : null;
+  postToUI({
+    type: 'selected-table',
+    table: table ? { name: table.name } : null
+  });
 }
 
 // Settings storage key
@@ -693,139 +4508,400 @@ async function saveSettings(settings: GenerateOptions): Promise<void> {
   }
 }
 
+// Rules storage key prefix, followed by the component key
+const RULES_KEY_PREFIX = 'zeroheight-instance-creator-rules:';
+
+// Load the exclusion rules of a component from clientStorage
+async function loadRules(componentKey: string): Promise<CombinationRule[]> {
+  try {
+    const rules = await figma.clientStorage.getAsync(RULES_KEY_PREFIX + componentKey);
+    return rules || [];
+  } catch (error) {
+    console.error('Error loading rules:', error);
+    return [];
+  }
+}
+
+// Save the exclusion rules of a component to clientStorage
+async function saveRules(componentKey: string, rules: CombinationRule[]): Promise<void> {
+  try {
+    await figma.clientStorage.setAsync(RULES_KEY_PREFIX + componentKey, rules);
+  } catch (error) {
+    console.error('Error saving rules:', error);
+    figma.notify('Failed to save rules');
+  }
+}
+
+// Presets are stored on the component as shared plugin data so the whole team sees them
+const PRESETS_NAMESPACE = 'zeroheight_instance_creator';
+const PRESETS_KEY = 'presets';
+
+// Load the presets saved on a component
+function loadPresets(node: ComponentNode | ComponentSetNode): ComponentPresets {
+  try {
+    const data = node.getSharedPluginData(PRESETS_NAMESPACE, PRESETS_KEY);
+    return data ? JSON.parse(data) : { presets: [], activePreset: null };
+  } catch (error) {
+    console.error('Error loading presets:', error);
+    return { presets: [], activePreset: null };
+  }
+}
+
+// Update the presets saved on a component and send them back to the UI
+// Returns whether the presets could be saved
+async function updatePresets(componentId: string, update: (componentPresets: ComponentPresets) => void): Promise<boolean> {
+  const node = await figma.getNodeByIdAsync(componentId);
+  if (!node || (node.type !== 'COMPONENT' && node.type !== 'COMPONENT_SET')) {
+    figma.notify('The component of this preset could not be found');
+    return false;
+  }
+
+  const componentPresets = loadPresets(node);
+  update(componentPresets);
+
+  try {
+    node.setSharedPluginData(PRESETS_NAMESPACE, PRESETS_KEY, JSON.stringify(componentPresets));
+  } catch (error) {
+    console.error('Error saving presets:', error);
+    figma.notify('Failed to save presets. Presets can only be saved on components in this file.');
+    return false;
+  }
+
+  postToUI({
+    type: 'presets-loaded',
+    componentId,
+    presets: componentPresets
+  });
+  return true;
+}
+
+// Helper function to export a small preview of a component for the UI
+// Returns null when the component can't be exported, like when it is empty
+async function getComponentThumbnail(component: ComponentNode): Promise<string | null> {
+  try {
+    const scale = Math.min(2, 128 / Math.max(component.width, component.height, 1));
+    const bytes = await component.exportAsync({ format: 'PNG', constraint: { type: 'SCALE', value: scale } });
+    return figma.base64Encode(bytes);
+  } catch (error) {
+    console.error('Error exporting thumbnail:', error);
+    return null;
+  }
+}
+
+// Thumbnail and predicted count of the last described component, the slow parts of a sync
+// Edits to the component reuse them for as long as its properties and the options stay the same
+interface SelectedComponentCache {
+  key: string;
+  thumbnail: string | null;
+  predictedCount: number | null;
+}
+
+let selectedComponentCache: SelectedComponentCache | null = null;
+
+// Helper function to describe the selected component for the UI
+// Returns null when the selection is not a component, component set or instance
+// With reuseCached, the thumbnail and predicted count are only recomputed when the properties changed
+async function getSelectedComponentInfo(reuseCached: boolean): Promise<SelectedComponentInfo | null> {
+  const selection = figma.currentPage.selection;
+  if (selection.length === 0) {
+    return null;
+  }
+
+  const selected = selection[0];
+  const componentInfo = await resolveComponentInfo(selected);
+  if (!componentInfo) {
+    return null;
+  }
+
+  const { component, componentSet } = componentInfo;
+  const source = getPropertySource(componentInfo);
+  const presets = loadPresets(source);
+
+  // Predict the count of a run with the saved settings and the active preset, the options
+  // the UI starts from before any values are deselected
+  const settings = await loadSettings();
+  const activePreset = presets.presets.find(preset => preset.name === presets.activePreset);
+  const options: GenerateOptions | null = settings
+    ? Object.assign({}, settings, activePreset ? activePreset.options : {})
+    : null;
+
+  const info: SelectedComponentInfo = {
+    name: componentSet ? componentSet.name : component.name,
+    id: source.id,
+    key: source.key,
+    type: selected.type as SelectedComponentInfo['type'],
+    remote: source.remote,
+    presets,
+    variantProperties: getAvailableVariantProperties(source),
+    booleanProperties: getAvailableBooleanProperties(source),
+    instanceSwapProperties: await getAvailableInstanceSwapProperties(source, false),
+    textProperties: getAvailableTextProperties(source),
+    nestedInstances: await getNestedInstances(source),
+    interactionTriggers: getInteractionTriggers(source),
+    variantCount: source.type === 'COMPONENT_SET'
+      ? source.children.filter(child => child.type === 'COMPONENT').length
+      : 1,
+    thumbnail: null,
+    predictedCount: null
+  };
+
+  const key = JSON.stringify([
+    info.id,
+    info.variantProperties,
+    info.booleanProperties,
+    info.instanceSwapProperties,
+    info.textProperties,
+    info.nestedInstances,
+    info.interactionTriggers,
+    info.variantCount,
+    options
+  ]);
+  if (!reuseCached || !selectedComponentCache || selectedComponentCache.key !== key) {
+    selectedComponentCache = {
+      key,
+      thumbnail: await getComponentThumbnail(componentSet ? componentSet.defaultVariant : component),
+      predictedCount: options ? await countInstances(componentInfo, options) : null
+    };
+  }
+  info.thumbnail = selectedComponentCache.thumbnail;
+  info.predictedCount = selectedComponentCache.predictedCount;
+  return info;
+}
+
+// ID of the component last sent to the UI, whose edits trigger a new sync
+let syncedComponentId: string | null = null;
+// IDs of the synced component and its layers, to recognize removals of its nodes
+let syncedNodeIds = new Set<string>();
+// Incremented on every sync so a slow, outdated sync doesn't overwrite a newer one
+let selectionSyncCount = 0;
+
+// Helper function to tell the UI about the selected component and instance table
+// Edits to the synced component reuse its thumbnail, predicted count and layer IDs where they still apply
+async function postSelection(isEdit: boolean) {
+  const sync = ++selectionSyncCount;
+  postSelectedTable();
+  const component = await getSelectedComponentInfo(isEdit);
+  if (sync !== selectionSyncCount) {
+    return;
+  }
+
+  const componentId = component ? component.id : null;
+  if (!isEdit || componentId !== syncedComponentId) {
+    syncedNodeIds = await getSyncedNodeIds(componentId);
+  }
+  syncedComponentId = componentId;
+  postToUI({
+    type: 'selected-component',
+    component
+  });
+}
+
+// Helper function to collect the IDs of a component and all of its layers
+async function getSyncedNodeIds(componentId: string | null): Promise<Set<string>> {
+  const ids = new Set<string>();
+  const node = componentId ? await figma.getNodeByIdAsync(componentId) : null;
+  if (node && (node.type === 'COMPONENT' || node.type === 'COMPONENT_SET')) {
+    ids.add(node.id);
+    for (const layer of node.findAll()) {
+      ids.add(layer.id);
+    }
+  }
+  return ids;
+}
+
+// Bursts of events, like dragging or typing in a property, are synced once
+let selectionSyncTimeout: number | null = null;
+
+// Whether every event since the last sync was an edit to the synced component
+let selectionSyncIsEdit = true;
+
+function scheduleSelectionSync(isEdit: boolean) {
+  selectionSyncIsEdit = selectionSyncIsEdit && isEdit;
+  if (selectionSyncTimeout !== null) {
+    clearTimeout(selectionSyncTimeout);
+  }
+  selectionSyncTimeout = setTimeout(() => {
+    const isEditSync = selectionSyncIsEdit;
+    selectionSyncTimeout = null;
+    selectionSyncIsEdit = true;
+    postSelection(isEditSync);
+  }, 100);
+}
+
+// Helper function to check whether a node change touches the synced component
+function isSyncedComponentChange(change: NodeChange): boolean {
+  if (!syncedComponentId) {
+    return false;
+  }
+  // Removed nodes no longer know their parent, so they are matched against the layers
+  // the component had when it was synced
+  if (change.node.removed) {
+    return syncedNodeIds.has(change.node.id);
+  }
+
+  let node: BaseNode | null = change.node as SceneNode;
+  while (node) {
+    if (node.id === syncedComponentId) {
+      return true;
+    }
+    node = node.parent;
+  }
+  return false;
+}
+
+function handleNodeChange(event: NodeChangeEvent) {
+  // A run's own changes, like removing what it created on cancel, don't need a sync
+  if (activeRun) {
+    return;
+  }
+  const changes = event.nodeChanges.filter(isSyncedComponentChange);
+  // Layers added to the component are remembered, so their removal is recognized too
+  for (const change of changes) {
+    if (change.type === 'CREATE' && !change.node.removed) {
+      syncedNodeIds.add(change.node.id);
+    }
+  }
+  if (changes.length > 0) {
+    scheduleSelectionSync(true);
+  }
+}
+
+// Page the node changes are listened to on
+// With dynamic page loading, document changes can only be listened to per page
+let watchedPage: PageNode | null = null;
+
+function watchCurrentPage() {
+  if (watchedPage) {
+    watchedPage.off('nodechange', handleNodeChange);
+  }
+  watchedPage = figma.currentPage;
+  watchedPage.on('nodechange', handleNodeChange);
+}
+
+// Helper function to send the pages of the document to the UI
+function postPages() {
+  postToUI({
+    type: 'pages',
+    pages: getPages(),
+    currentPageId: figma.currentPage.id
+  });
+}
+
 // Handle messages from UI
-figma.ui.onmessage = async (msg) => {
+figma.ui.onmessage = async (msg: UIMessage) => {
   if (msg.type === 'generate-instances') {
-    await generateInstances(msg.options);
+    const table = await generateInstances(msg.options, msg.confirmed === true);
+    if (table && msg.imageExport) {
+      await exportTableImages(table.mainFrame, msg.imageExport);
+    }
+  } else if (msg.type === 'cancel-generation') {
+    if (activeRun) {
+      activeRun.cancelled = true;
+    }
+  } else if (msg.type === 'regenerate-table') {
+    await regenerateInstanceTable(msg.confirmed === true);
+  } else if (msg.type === 'export-images') {
+    await exportSelectedTableImages(msg.imageExport);
+  } else if (msg.type === 'generate-batch') {
+    await generateBatch(msg.options, msg.scope, msg.confirmed === true);
+  } else if (msg.type === 'predict-count') {
+    const count = await predictInstanceCount(msg.options);
+    postToUI({
+      type: 'predicted-count',
+      count
+    });
+  } else if (msg.type === 'preview-names') {
+    const names = await previewInstanceNames(msg.options, 5);
+    postToUI({
+      type: 'name-preview',
+      names
+    });
+  } else if (msg.type === 'load-rules') {
+    const rules = await loadRules(msg.componentKey);
+    postToUI({
+      type: 'rules-loaded',
+      componentKey: msg.componentKey,
+      rules
+    });
+  } else if (msg.type === 'save-rules') {
+    await saveRules(msg.componentKey, msg.rules);
+  } else if (msg.type === 'save-preset') {
+    const saved = await updatePresets(msg.componentId, componentPresets => {
+      const preset: Preset = msg.preset;
+      componentPresets.presets = componentPresets.presets.filter(p => p.name !== preset.name);
+      componentPresets.presets.push(preset);
+      componentPresets.activePreset = preset.name;
+    });
+    if (saved) {
+      figma.notify(`Preset "${msg.preset.name}" saved`);
+    }
+  } else if (msg.type === 'delete-preset') {
+    await updatePresets(msg.componentId, componentPresets => {
+      componentPresets.presets = componentPresets.presets.filter(p => p.name !== msg.name);
+      if (componentPresets.activePreset === msg.name) {
+        componentPresets.activePreset = null;
+      }
+    });
+  } else if (msg.type === 'set-active-preset') {
+    await updatePresets(msg.componentId, componentPresets => {
+      componentPresets.activePreset = msg.name;
+    });
+  } else if (msg.type === 'audit-components') {
+    await auditComponents(msg.scope);
+  } else if (msg.type === 'compare-variants') {
+    await compareVariants(msg.left, msg.right, msg.labels);
+  } else if (msg.type === 'get-pages') {
+    postPages();
   } else if (msg.type === 'load-settings') {
     const settings = await loadSettings();
-    figma.ui.postMessage({
+    postToUI({
       type: 'settings-loaded',
       settings
     });
   } else if (msg.type === 'save-settings') {
     await saveSettings(msg.settings);
     figma.notify('Settings saved');
+  } else if (msg.type === 'get-variable-collections') {
+    const collections = await getVariableCollections();
+    postToUI({
+      type: 'variable-collections',
+      collections
+    });
+  } else if (msg.type === 'get-label-styles') {
+    const labelStyles = await getLabelStyles();
+    postToUI({
+      type: 'label-styles',
+      textStyles: labelStyles.textStyles,
+      colorVariables: labelStyles.colorVariables
+    });
   } else if (msg.type === 'get-selected-component') {
-    const selection = figma.currentPage.selection;
-    if (selection.length > 0) {
-      const selected = selection[0];
-      if (selected.type === 'COMPONENT' || selected.type === 'COMPONENT_SET') {
-        const componentInfo = getComponentFromSelection(selected);
-        if (componentInfo) {
-          const { component, componentSet } = componentInfo;
-          
-          // Determine the source for variant and boolean properties
-          let variantSource: ComponentNode | ComponentSetNode;
-          let booleanSource: ComponentNode | ComponentSetNode;
-          
-          if (componentSet) {
-            variantSource = componentSet;
-            booleanSource = componentSet;
-          } else if (component.parent && component.parent.type === 'COMPONENT_SET') {
-            variantSource = component.parent as ComponentSetNode;
-            booleanSource = component.parent as ComponentSetNode;
-          } else {
-            variantSource = component;
-            booleanSource = component;
-          }
-          
-          const variantProperties = getAvailableVariantProperties(variantSource);
-          const booleanProperties = getAvailableBooleanProperties(booleanSource);
-          
-          figma.ui.postMessage({
-            type: 'selected-component',
-            component: {
-              name: componentSet ? componentSet.name : component.name,
-              type: selected.type,
-              variantProperties: variantProperties,
-              booleanProperties: booleanProperties
-            }
-          });
-        } else {
-          figma.ui.postMessage({
-            type: 'selected-component',
-            component: null
-          });
-        }
-      } else {
-        figma.ui.postMessage({
-          type: 'selected-component',
-          component: null
-        });
-      }
-    } else {
-      figma.ui.postMessage({
-        type: 'selected-component',
-        component: null
-      });
-    }
+    await postSelection(false);
   }
 };
 
-// Listen for selection changes
-figma.on('selectionchange', () => {
-  const selection = figma.currentPage.selection;
-  if (selection.length > 0) {
-    const selected = selection[0];
-    if (selected.type === 'COMPONENT' || selected.type === 'COMPONENT_SET') {
-      const componentInfo = getComponentFromSelection(selected);
-      if (componentInfo) {
-        const { component, componentSet } = componentInfo;
-        
-        // Determine the source for variant and boolean properties
-        let variantSource: ComponentNode | ComponentSetNode;
-        let booleanSource: ComponentNode | ComponentSetNode;
-        
-        if (componentSet) {
-          variantSource = componentSet;
-          booleanSource = componentSet;
-        } else if (component.parent && component.parent.type === 'COMPONENT_SET') {
-          variantSource = component.parent as ComponentSetNode;
-          booleanSource = component.parent as ComponentSetNode;
-        } else {
-          variantSource = component;
-          booleanSource = component;
-        }
-        
-        const variantProperties = getAvailableVariantProperties(variantSource);
-        const booleanProperties = getAvailableBooleanProperties(booleanSource);
-        
-        figma.ui.postMessage({
-          type: 'selected-component',
-          component: {
-            name: componentSet ? componentSet.name : component.name,
-            type: selected.type,
-            variantProperties: variantProperties,
-            booleanProperties: booleanProperties
-          }
-        });
-      } else {
-        figma.ui.postMessage({
-          type: 'selected-component',
-          component: null
-        });
-      }
-    } else {
-      figma.ui.postMessage({
-        type: 'selected-component',
-        component: null
-      });
-    }
-  } else {
-    figma.ui.postMessage({
-      type: 'selected-component',
-      component: null
-    });
-  }
+// Listen for selection and page changes, and for edits to the selected component
+figma.on('selectionchange', () => scheduleSelectionSync(false));
+figma.on('currentpagechange', () => {
+  watchCurrentPage();
+  postPages();
+  scheduleSelectionSync(false);
 });
+watchCurrentPage();
 
 // Show UI
 figma.showUI(__html__, { width: 300, height: 450 });
 
+// Send variable collections on startup so brand modes can be chosen in settings
+getVariableCollections().then(collections => {
+  postToUI({
+    type: 'variable-collections',
+    collections
+  });
+});
+
 // Load and send settings on startup
 loadSettings().then(settings => {
-  figma.ui.postMessage({
+  postToUI({
     type: 'settings-loaded',
     settings
   });